@@ -7,6 +7,7 @@
  */
 
 import INFLUXDB_HELPER_NAME, { INFLUXDB_HELPER_NAMESPACE } from './settings';
+import { BackfillProgress, ConnectionStatus, TrackEvent } from './types';
 
 declare global {
   interface Settings extends SettingTree<typeof INFLUXDB_HELPER_NAME> {}
@@ -18,5 +19,14 @@ declare module '@nestjs/event-emitter' {
       object,
       SettingMapByType<typeof INFLUXDB_HELPER_NAME>
     >;
+    // Events of the helper, kept apart from the settings hooks
+    influxdb: TDefinition<
+      object,
+      {
+        track: TrackEvent;
+        status: ConnectionStatus;
+        backfill: BackfillProgress;
+      }
+    >;
   }
 }
@@ -6,17 +6,33 @@
  * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
  */
 
-import { InfluxDB, Point } from '@influxdata/influxdb-client';
-import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
-import { OnEvent } from '@nestjs/event-emitter';
+import { flux, InfluxDB, Point } from '@influxdata/influxdb-client';
+import { BucketsAPI } from '@influxdata/influxdb-client-apis';
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { HttpAdapterHost, ModuleRef } from '@nestjs/core';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { Command, Option } from 'nestjs-command';
+import { join } from 'path';
 import slug from 'slug';
 
 import { BotStatsType } from '@/analytics/schemas/bot-stats.schema';
 import EventWrapper from '@/channel/lib/EventWrapper';
 import { Block, BlockFull } from '@/chat/schemas/block.schema';
+import { Message } from '@/chat/schemas/message.schema';
 import { Subscriber } from '@/chat/schemas/subscriber.schema';
 import { Context } from '@/chat/schemas/types/context';
-import { OutgoingMessage } from '@/chat/schemas/types/message';
+import {
+  OutgoingMessage,
+  StdIncomingMessage,
+  StdOutgoingMessage,
+} from '@/chat/schemas/types/message';
+import { MessageService } from '@/chat/services/message.service';
+import { SubscriberService } from '@/chat/services/subscriber.service';
 import { HelperService } from '@/helper/helper.service';
 import BaseHelper from '@/helper/lib/base-helper';
 import { HelperType } from '@/helper/types';
@@ -24,59 +40,825 @@ import { LoggerService } from '@/logger/logger.service';
 import { Setting } from '@/setting/schemas/setting.schema';
 import { SettingService } from '@/setting/services/setting.service';
 
-import { INFLUXDB_HELPER_NAME } from './settings';
-import { InfluxFields, InfluxTags } from './types';
+import {
+  BackfillCollection,
+  BackfillCursor,
+  BackfillRunner,
+} from './lib/backfill';
+import { BlockClassifier, DEFAULT_DIMENSION } from './lib/block-classifier';
+import { CardinalityGuard } from './lib/cardinality-guard';
+import { ConnectionMonitor } from './lib/connection-monitor';
+import {
+  DashboardInstaller,
+  DashboardOptions,
+  getGrafanaDashboard,
+  getInfluxdbTemplate,
+} from './lib/dashboards';
+import { isSubscriberLine, SubscriberEraser } from './lib/erasure';
+import { FileSink, readLineProtocolFile } from './lib/file-sink';
+import { FunnelProgress, FunnelTracker } from './lib/funnel-tracker';
+import { Handover, HandoverTracker } from './lib/handover-tracker';
+import { LogSink } from './lib/log-sink';
+import { MeasurementMigrator } from './lib/measurement-migrator';
+import {
+  getMeasurementName,
+  getMeasurementNames,
+  Measurement,
+  SCHEMA_VERSION,
+} from './lib/measurements';
+import { NlpTracker } from './lib/nlp-tracker';
+import { PointRouter } from './lib/point-router';
+import { applyPrivacy } from './lib/privacy';
+import { InfluxdbQueryService } from './lib/query-service';
+import { ResponseTimer } from './lib/response-timer';
+import { RollupProvisioner } from './lib/rollup-provisioner';
+import { EventFamily, Sampler } from './lib/sampler';
+import { SchemaRegistry } from './lib/schema-registry';
+import {
+  Session,
+  SessionActivity,
+  SessionTracker,
+} from './lib/session-tracker';
+import { isRetriable, Sink } from './lib/sink';
+import { PointSpool } from './lib/spool';
+import {
+  getErrorType,
+  isAuthorized,
+  Metric,
+  Telemetry,
+  TELEMETRY_MEASUREMENT,
+  TimedTransport,
+} from './lib/telemetry';
+import { isCoarsePrecision, TimestampSequencer } from './lib/timestamps';
+import { V1WritePipeline } from './lib/v1-write-pipeline';
+import { WritePipeline } from './lib/write-pipeline';
+import { INFLUXDB_HELPER_NAME, INFLUXDB_HELPER_NAMESPACE } from './settings';
+import {
+  BackfillProgress,
+  BlockHitsGroup,
+  ConnectionStatus,
+  DashboardFormat,
+  ErasureReport,
+  FunnelAbandonReason,
+  InfluxFields,
+  InfluxTags,
+  LogEventOptions,
+  MigrationReport,
+  NlpFallback,
+  QueryRange,
+  RoutingDestination,
+  TrackEvent,
+  TrackSchema,
+} from './types';
+
+// Delay between two attempts to replay the spooled points (in ms)
+const SPOOL_REPLAY_INTERVAL = 30 * 1000;
+
+// Delay between two checks for idle sessions and funnels (in ms)
+const SWEEP_INTERVAL = 60 * 1000;
+
+// Path of the endpoint exposing the helper metrics in the Prometheus text format
+const METRICS_PATH = '/influxdb/metrics';
+
+// Sub-directory of the spool directory holding the points kept by the erasures, until written back
+const ERASURE_BACKUP_DIRECTORY = '.erasure';
 
 @Injectable()
 export default class InfluxdbHelper
   extends BaseHelper<typeof INFLUXDB_HELPER_NAME>
-  implements OnApplicationBootstrap
+  implements OnModuleInit, OnApplicationBootstrap, OnApplicationShutdown
 {
   protected readonly type: HelperType = HelperType.UTIL;
 
-  private client: InfluxDB;
+  // Only available with InfluxDB 2.x, used to query and delete data
+  private client: InfluxDB | null = null;
+
+  private pipeline: Sink;
+
+  // Settings the sinks were created with
+  private pipelineSettings: Settings[typeof INFLUXDB_HELPER_NAMESPACE] | null =
+    null;
+
+  private spool: PointSpool | null = null;
+
+  // Line protocol file, when enabled: the default sink in file mode, or a copy of the points
+  // written to InfluxDB (whatever their destination) in both mode
+  private fileSink: FileSink | null = null;
+
+  // Sinks (along with their spool) of the routed destinations, by organization and bucket
+  private readonly routes = new Map<
+    string,
+    { sink: Sink; spool: PointSpool | null }
+  >();
+
+  private readonly connectionMonitor: ConnectionMonitor;
+
+  private readonly cardinalityGuard: CardinalityGuard;
+
+  private readonly blockClassifier: BlockClassifier;
+
+  private readonly sampler: Sampler;
+
+  private readonly pointRouter: PointRouter;
+
+  private readonly sessionTracker: SessionTracker;
+
+  private readonly funnelTracker: FunnelTracker;
+
+  private readonly handoverTracker: HandoverTracker;
+
+  private readonly responseTimer = new ResponseTimer();
+
+  private readonly nlpTracker: NlpTracker;
+
+  private readonly schemaRegistry = new SchemaRegistry();
+
+  private readonly backfillRunner: BackfillRunner;
+
+  private readonly telemetry: Telemetry;
+
+  private readonly timestamps = new TimestampSequencer();
+
+  // Erasures are chained so that they run one at a time, outside of the hooks requesting them
+  private erasures: Promise<void> = Promise.resolve();
+
+  // Whether the missing privacy salt has been reported, until it gets set
+  private missingSaltWarned = false;
 
   constructor(
     settingService: SettingService,
     helperService: HelperService,
     logger: LoggerService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly moduleRef: ModuleRef,
+    private readonly httpAdapterHost: HttpAdapterHost,
   ) {
     super(INFLUXDB_HELPER_NAME, settingService, helperService, logger);
+    this.connectionMonitor = new ConnectionMonitor((status) => {
+      this.eventEmitter.emit('hook:influxdb:status', status);
+      this.showConnectionStatus(status);
+    }, logger);
+    this.cardinalityGuard = new CardinalityGuard(logger);
+    this.blockClassifier = new BlockClassifier(logger);
+    this.sampler = new Sampler(logger);
+    this.pointRouter = new PointRouter(logger);
+    this.sessionTracker = new SessionTracker(
+      {
+        onStart: (session) => this.logSessionStartEvent(session),
+        onEnd: (session) => this.logSessionEndEvent(session),
+      },
+      logger,
+    );
+    this.funnelTracker = new FunnelTracker(
+      {
+        onStep: (progress) => this.logFunnelStepEvent(progress),
+        onConverted: (progress) => this.logFunnelConvertedEvent(progress),
+        onAbandoned: (progress, reason, abandonedAt) =>
+          this.logFunnelAbandonedEvent(progress, reason, abandonedAt),
+      },
+      logger,
+    );
+    this.handoverTracker = new HandoverTracker(
+      (handover) => this.logHandoverResolvedEvent(handover),
+      logger,
+    );
+    this.telemetry = new Telemetry(() => this.reportTelemetry());
+    this.backfillRunner = new BackfillRunner(logger, (progress) =>
+      this.eventEmitter.emit('hook:influxdb:backfill', progress),
+    );
+    this.nlpTracker = new NlpTracker(
+      (event, fallback, receivedAt) =>
+        this.logSampled('nlp', event.getSender(), (sampleRate) =>
+          this.logNlpEvent(event, fallback, sampleRate, receivedAt),
+        ),
+      logger,
+    );
   }
 
   getPath(): string {
     return __dirname;
   }
 
+  onModuleInit() {
+    // Routes have to be registered before the application init completes, not available in the CLI
+    const httpAdapter = this.httpAdapterHost?.httpAdapter;
+    httpAdapter?.get(
+      METRICS_PATH,
+      async (req: { headers: { authorization?: string } }, res: unknown) => {
+        try {
+          const { metrics_enabled, metrics_token } = await this.getSettings();
+          if (!metrics_enabled) {
+            httpAdapter.reply(res, 'Not Found', 404);
+            return;
+          }
+          if (!isAuthorized(req.headers.authorization, metrics_token)) {
+            httpAdapter.reply(res, 'Unauthorized', 401);
+            return;
+          }
+          httpAdapter.setHeader(
+            res,
+            'content-type',
+            'text/plain; version=0.0.4; charset=utf-8',
+          );
+          httpAdapter.reply(res, this.getMetrics(), 200);
+        } catch (err) {
+          this.logger.error(
+            'InfluxDB Service: Unable to serve the metrics',
+            err,
+          );
+          httpAdapter.reply(res, 'Internal Server Error', 500);
+        }
+      },
+    );
+  }
+
   async onApplicationBootstrap() {
     const settings = await this.getSettings();
 
-    this.client = new InfluxDB({
-      url: settings.url,
-      token: settings.token,
-    });
+    await this.setupPipeline(settings);
+    // Not awaited so that provisioning does not hold the application boot
+    this.provisionRollups(settings);
+
+    this.sessionTracker.idleTimeout = settings.session_timeout * 60 * 1000;
+    this.sessionTracker.start(SWEEP_INTERVAL);
+    this.funnelTracker.start(SWEEP_INTERVAL);
+    this.handoverTracker.start(SWEEP_INTERVAL);
+    this.responseTimer.start(SWEEP_INTERVAL);
+    this.nlpTracker.start(SWEEP_INTERVAL);
+    this.telemetry.start(settings.telemetry_interval * 1000);
+
+    if (settings.backfill_enabled) {
+      // Resumes an interrupted backfill, not awaited so that it does not hold the application boot
+      this.backfill();
+    }
   }
 
-  @OnEvent('hook:influxdb_helper:url')
-  async handleApiUrlChange(setting: Setting) {
-    const settings = await this.getSettings();
+  async onApplicationShutdown() {
+    this.backfillRunner.stop();
+    this.telemetry.stop();
+    this.spool?.stopReplay();
+    this.funnelTracker.stop();
+    this.handoverTracker.stop();
+    this.responseTimer.stop();
+    this.nlpTracker.stop();
+    this.sessionTracker.stop();
+    // Queued erasures write points back, they have to complete before the sinks get closed
+    await this.erasures;
+    await this.closeRoutes();
+    await Promise.all(this.getOwnSinks().map((sink) => sink.close()));
+  }
 
-    this.client = new InfluxDB({
-      url: setting.value,
-      token: settings.token,
-    });
+  @OnEvent('hook:influxdb_helper:session_timeout')
+  handleSessionTimeoutChange(setting: Setting) {
+    this.sessionTracker.idleTimeout = setting.value * 60 * 1000;
+  }
+
+  /**
+   * Recreates the sinks with a new setting, unless it is the one they were created with.
+   *
+   * @param setting - The updated setting.
+   *
+   * @returns The updated settings if the sinks were recreated, null otherwise.
+   */
+  private async reloadPipeline(setting: Setting) {
+    if (this.pipelineSettings?.[setting.label] === setting.value) {
+      return null;
+    }
+
+    const settings = await this.getSettings();
+    const updated = {
+      ...settings,
+      [setting.label]: setting.value,
+    };
+    await this.setupPipeline(updated);
+    return updated;
   }
 
+  // The rollups are provisioned on the server the points are written to
+  @OnEvent('hook:influxdb_helper:version')
+  @OnEvent('hook:influxdb_helper:url')
   @OnEvent('hook:influxdb_helper:token')
-  async handleApiTokenChange(setting: Setting) {
+  @OnEvent('hook:influxdb_helper:organization')
+  @OnEvent('hook:influxdb_helper:bucket')
+  async handleConnectionSettingChange(setting: Setting) {
+    const updated = await this.reloadPipeline(setting);
+    if (updated) {
+      await this.provisionRollups(updated);
+    }
+  }
+
+  @OnEvent('hook:influxdb_helper:database')
+  @OnEvent('hook:influxdb_helper:retention_policy')
+  @OnEvent('hook:influxdb_helper:username')
+  @OnEvent('hook:influxdb_helper:password')
+  @OnEvent('hook:influxdb_helper:write_precision')
+  @OnEvent('hook:influxdb_helper:sink_mode')
+  @OnEvent('hook:influxdb_helper:sink_file')
+  @OnEvent('hook:influxdb_helper:sink_file_max_size')
+  @OnEvent('hook:influxdb_helper:sink_file_max_files')
+  @OnEvent('hook:influxdb_helper:spool_enabled')
+  @OnEvent('hook:influxdb_helper:spool_directory')
+  @OnEvent('hook:influxdb_helper:spool_max_size')
+  @OnEvent('hook:influxdb_helper:spool_max_age')
+  async handleSinkSettingChange(setting: Setting) {
+    await this.reloadPipeline(setting);
+  }
+
+  // Batch options are applied to the live sinks, routing rules are read on each point
+  @OnEvent('hook:influxdb_helper:batch_size')
+  @OnEvent('hook:influxdb_helper:flush_interval')
+  @OnEvent('hook:influxdb_helper:max_retries')
+  @OnEvent('hook:influxdb_helper:retry_jitter')
+  handleBatchSettingChange(setting: Setting) {
+    const tuning = {
+      batch_size: { batchSize: setting.value },
+      flush_interval: { flushInterval: setting.value },
+      max_retries: { maxRetries: setting.value },
+      retry_jitter: { retryJitter: setting.value },
+    }[setting.label];
+    this.pipelineSettings = {
+      ...this.pipelineSettings,
+      [setting.label]: setting.value,
+    };
+    this.getSinks().forEach((sink) => sink.configure(tuning));
+  }
+
+  @OnEvent('hook:influxdb_helper:telemetry_interval')
+  handleTelemetryIntervalChange(setting: Setting) {
+    this.telemetry.start(setting.value * 1000);
+  }
+
+  @OnEvent('hook:influxdb_helper:backfill_enabled')
+  handleBackfillSettingChange(setting: Setting) {
+    if (setting.value) {
+      this.backfill();
+    } else {
+      this.backfillRunner.stop();
+    }
+  }
+
+  @OnEvent('hook:influxdb_helper:rollups_enabled')
+  @OnEvent('hook:influxdb_helper:rollup_hourly_retention')
+  @OnEvent('hook:influxdb_helper:rollup_daily_retention')
+  @OnEvent('hook:influxdb_helper:naming_strategy')
+  @OnEvent('hook:influxdb_helper:measurement_prefix')
+  @OnEvent('hook:influxdb_helper:subject_tagname')
+  async handleRollupSettingChange(setting: Setting) {
     const settings = await this.getSettings();
 
-    this.client = new InfluxDB({
-      url: settings.url,
-      token: setting.value,
+    await this.provisionRollups(
+      {
+        ...settings,
+        [setting.label]: setting.value,
+      },
+      // Tasks are only deactivated when rollups get disabled
+      setting.label === 'rollups_enabled' && !setting.value,
+    );
+  }
+
+  /**
+   * Creates an InfluxDB client whose write requests are timed and counted by the telemetry.
+   *
+   * @param url - The InfluxDB URL.
+   * @param token - The API token, if any.
+   *
+   * @returns The InfluxDB client.
+   */
+  private createClient(url: string, token?: string) {
+    const transport = new InfluxDB({ url, token }).transport;
+    return new InfluxDB({
+      url,
+      token,
+      transport: new TimedTransport(transport, (duration, error) => {
+        this.telemetry.observe(Metric.writeDuration, {}, duration / 1000);
+        if (error) {
+          this.telemetry.increment(Metric.writeErrors, {
+            sink: 'influxdb',
+            type: getErrorType(error),
+          });
+        }
+      }),
     });
   }
 
+  /**
+   * Creates the sink matching the configured InfluxDB version, writing either to the configured
+   * destination or to a routed one.
+   *
+   * @param settings - The helper settings.
+   * @param spool - The spool persisting the points that cannot be delivered, if enabled.
+   * @param destination - The routed destination, defaults to the configured one.
+   *
+   * @returns The sink writing the analytic points to InfluxDB.
+   */
+  private createInfluxdbSink(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+    spool: PointSpool | null,
+    destination: RoutingDestination = {},
+  ): Sink {
+    const batchOptions = {
+      batchSize: settings.batch_size,
+      flushInterval: settings.flush_interval,
+      maxRetries: settings.max_retries,
+      retryJitter: settings.retry_jitter,
+      precision: settings.write_precision,
+      onFailed: spool
+        ? async (lines: string[]) => {
+            await spool.append(lines, settings.write_precision);
+            this.telemetry.increment(Metric.linesSpooled, {}, lines.length);
+          }
+        : undefined,
+      onSuccess: (lines: string[]) => {
+        this.connectionMonitor.reportSuccess();
+        this.telemetry.increment(
+          Metric.linesWritten,
+          { sink: 'influxdb' },
+          lines.length,
+        );
+      },
+      onError: (error: Error, lines: string[]) => {
+        this.connectionMonitor.reportError(error);
+        // Undelivered lines are spooled when possible, rejected ones are lost
+        if (!isRetriable(error) || !spool) {
+          this.telemetry.increment(
+            Metric.pointsDropped,
+            { reason: isRetriable(error) ? 'undelivered' : 'rejected' },
+            lines.length,
+          );
+        }
+      },
+    };
+
+    switch (settings.version) {
+      case 'v1':
+        return new V1WritePipeline(
+          this.createClient(settings.url),
+          {
+            ...batchOptions,
+            database: destination.bucket || settings.database,
+            retentionPolicy: settings.retention_policy,
+            username: settings.username,
+            password: settings.password,
+          },
+          this.logger,
+        );
+      case 'v3':
+        // InfluxDB 3 accepts v2 writes, the database standing for the bucket
+        return new WritePipeline(
+          this.createClient(settings.url, settings.token),
+          {
+            ...batchOptions,
+            version: 'v3',
+            organization: '',
+            bucket: destination.bucket || settings.database,
+          },
+          this.logger,
+        );
+      default:
+        return new WritePipeline(
+          this.client,
+          {
+            ...batchOptions,
+            version: 'v2',
+            organization: destination.organization || settings.organization,
+            bucket: destination.bucket || settings.bucket,
+          },
+          this.logger,
+        );
+    }
+  }
+
+  /**
+   * Creates the sink matching the configured sink mode: InfluxDB (also in both mode, the points
+   * being copied to the file apart), the line protocol file or the logs. The spooled points,
+   * if any, are replayed to InfluxDB only.
+   *
+   * @param settings - The helper settings.
+   * @param spool - The spool persisting the points that cannot be delivered, if enabled.
+   * @param destination - The routed destination, defaults to the configured one.
+   *
+   * @returns The sink to which the analytic points are written.
+   */
+  private createSink(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+    spool: PointSpool | null,
+    destination: RoutingDestination = {},
+  ): Sink {
+    switch (settings.sink_mode) {
+      case 'file':
+        return this.fileSink;
+      case 'log':
+        return new LogSink(settings.write_precision, this.logger);
+      default: {
+        const sink = this.createInfluxdbSink(settings, spool, destination);
+        spool?.startReplay(
+          (lines, precision) => sink.writeLines(lines, precision),
+          SPOOL_REPLAY_INTERVAL,
+        );
+        return sink;
+      }
+    }
+  }
+
+  /**
+   * Creates the spool of a destination, if spooling is enabled. Routed destinations are
+   * spooled in their own sub-directory so that their points are replayed to them.
+   *
+   * @param settings - The helper settings.
+   * @param key - The routed destination key, if any.
+   *
+   * @returns The spool, or null if spooling is disabled or points are not written to InfluxDB.
+   */
+  private createSpool(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+    key?: string,
+  ) {
+    return settings.spool_enabled &&
+      (settings.sink_mode === 'influxdb' || settings.sink_mode === 'both')
+      ? new PointSpool(
+          {
+            directory: key
+              ? join(settings.spool_directory, slug(key))
+              : settings.spool_directory,
+            maxSize: settings.spool_max_size * 1024 * 1024,
+            maxAge: settings.spool_max_age * 60 * 60 * 1000,
+          },
+          this.logger,
+        )
+      : null;
+  }
+
+  /**
+   * (Re)creates the sink matching the configured InfluxDB version along with the spool, and the
+   * client used to query and delete data when the version supports it.
+   * The previous pipeline, if any, gets flushed and closed once the new one is in place
+   * so that no point gets lost while the connection settings are being updated.
+   * Points that cannot be delivered are spooled on disk (when enabled) and replayed
+   * periodically until InfluxDB is reachable again. The new connection is checked right away.
+   * Routed sinks are closed, they get recreated with the new settings on their next point.
+   * Depending on the sink mode, points are written to a rotating line protocol file or printed
+   * in the logs, instead of or along with InfluxDB.
+   *
+   * @param settings - The helper settings to use for the connection.
+   */
+  private async setupPipeline(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+  ) {
+    const previous = this.getOwnSinks();
+    this.pipelineSettings = settings;
+
+    if (isCoarsePrecision(settings.write_precision)) {
+      this.logger.warn(
+        `InfluxDB Service: Events of a series within the same ${settings.write_precision === 's' ? 'second' : 'millisecond'} overwrite each other with the "${settings.write_precision}" write precision, use "us" or "ns" to keep them all`,
+      );
+    }
+
+    this.client =
+      settings.version === 'v1' || settings.version === 'v3'
+        ? null
+        : this.createClient(settings.url, settings.token);
+
+    this.spool?.stopReplay();
+    this.spool = this.createSpool(settings);
+
+    this.fileSink =
+      settings.sink_mode === 'file' || settings.sink_mode === 'both'
+        ? new FileSink(
+            {
+              path: settings.sink_file,
+              maxSize: settings.sink_file_max_size * 1024 * 1024,
+              maxFiles: settings.sink_file_max_files,
+              batchSize: settings.batch_size,
+              flushInterval: settings.flush_interval,
+              precision: settings.write_precision,
+              onSuccess: (lines) => {
+                this.connectionMonitor.reportSuccess();
+                this.telemetry.increment(
+                  Metric.linesWritten,
+                  { sink: 'file' },
+                  lines.length,
+                );
+              },
+              onError: (error, lines) => {
+                this.connectionMonitor.reportError(error);
+                this.telemetry.increment(Metric.writeErrors, {
+                  sink: 'file',
+                  type: getErrorType(error),
+                });
+                this.telemetry.increment(
+                  Metric.pointsDropped,
+                  { reason: 'error' },
+                  lines.length,
+                );
+              },
+            },
+            this.logger,
+          )
+        : null;
+
+    this.pipeline = this.createSink(settings, this.spool);
+
+    await this.closeRoutes();
+    await Promise.all(previous.map((sink) => sink.close()));
+
+    // Not awaited so that an unreachable server does not hold the application boot
+    this.checkConnection();
+  }
+
+  /**
+   * Returns the sink of a routed destination, creating it (along with its spool) on first use.
+   *
+   * @param settings - The helper settings.
+   * @param destination - The routed destination.
+   *
+   * @returns The sink of the destination, the default pipeline if it is the configured destination.
+   */
+  private getRouteSink(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+    destination: RoutingDestination,
+  ): Sink {
+    // Only points written to InfluxDB have a destination
+    if (settings.sink_mode !== 'influxdb' && settings.sink_mode !== 'both') {
+      return this.pipeline;
+    }
+
+    const isV2 = settings.version !== 'v1' && settings.version !== 'v3';
+    const organization = isV2
+      ? destination.organization || settings.organization
+      : '';
+    const bucket =
+      destination.bucket || (isV2 ? settings.bucket : settings.database);
+    if (
+      organization === (isV2 ? settings.organization : '') &&
+      bucket === (isV2 ? settings.bucket : settings.database)
+    ) {
+      return this.pipeline;
+    }
+
+    const key = `${organization}/${bucket}`;
+    if (!this.routes.has(key)) {
+      const spool = this.createSpool(settings, key);
+      const sink = this.createSink(settings, spool, { organization, bucket });
+      this.routes.set(key, { sink, spool });
+      this.logger.log(`InfluxDB Service: Routing points to "${key}"`);
+    }
+    return this.routes.get(key).sink;
+  }
+
+  /**
+   * Returns the sinks owned by the helper rather than by a routed destination: the default
+   * pipeline and the line protocol file, each of them once.
+   *
+   * @returns The default sinks.
+   */
+  private getOwnSinks(): Sink[] {
+    return [this.pipeline, this.fileSink].filter(
+      (sink, index, sinks) => !!sink && sinks.indexOf(sink) === index,
+    );
+  }
+
+  /**
+   * Returns all the live sinks, default and routed ones, each of them once.
+   *
+   * @returns The sinks.
+   */
+  private getSinks(): Sink[] {
+    return [
+      ...this.getOwnSinks(),
+      ...[...this.routes.values()].map(({ sink }) => sink),
+    ];
+  }
+
+  /**
+   * Flushes and closes the sinks of the routed destinations.
+   */
+  private async closeRoutes() {
+    const routes = [...this.routes.values()];
+    this.routes.clear();
+    await Promise.all(
+      routes.map(({ sink, spool }) => {
+        spool?.stopReplay();
+        return sink.close();
+      }),
+    );
+  }
+
+  /**
+   * Checks that InfluxDB is reachable and that the credentials can access the destination,
+   * updating the connection status accordingly.
+   *
+   * @returns A promise resolved with the resulting connection status.
+   */
+  public async checkConnection() {
+    const status = await this.connectionMonitor.check(this.pipeline);
+    // Also refreshes the status shown when it did not change since the previous run
+    await this.showConnectionStatus(status);
+    return status;
+  }
+
+  /**
+   * Returns the status of the connection to InfluxDB (ok, degraded, down, unauthorized or
+   * not_found) along with the last error encountered. Status changes are also emitted as `hook:influxdb:status`.
+   *
+   * @returns The connection status.
+   */
+  public getConnectionStatus(): ConnectionStatus {
+    return this.connectionMonitor.getStatus();
+  }
+
+  /**
+   * Updates the queue depth gauge with the points pending in the default and routed sinks.
+   */
+  private updateQueueDepth() {
+    this.telemetry.set(
+      Metric.queueDepth,
+      {},
+      this.getSinks().reduce((depth, sink) => depth + sink.getQueueDepth(), 0),
+    );
+  }
+
+  /**
+   * Returns the metrics of the helper itself: points queued per measurement, points dropped
+   * (sampled out, rejected or undelivered), lines written and spooled, write errors by type,
+   * write latency and queue depth. They are also served at `/influxdb/metrics` when
+   * `metrics_enabled` is checked, to the requests bearing the `metrics_token`.
+   *
+   * @returns The metrics, in the Prometheus text exposition format.
+   */
+  public getMetrics() {
+    this.updateQueueDepth();
+    return this.telemetry.toPrometheus();
+  }
+
+  /**
+   * Writes the metrics of the helper as `influxdb_helper_internal` points, so that alerts can be
+   * set up in InfluxDB when the analytics stop flowing.
+   */
+  private reportTelemetry() {
+    if (!this.pipeline) {
+      return;
+    }
+    this.updateQueueDepth();
+    this.telemetry
+      .toPoints(new Date())
+      .forEach((point) => this.pipeline.write(point));
+  }
+
+  /**
+   * Provisions the hourly and daily rollup buckets along with the tasks aggregating the raw
+   * points into them, when rollups are enabled. Errors are logged.
+   *
+   * @param settings - The helper settings.
+   * @param deactivate - Whether to deactivate the existing tasks when rollups are disabled.
+   */
+  private async provisionRollups(
+    settings: Settings[typeof INFLUXDB_HELPER_NAMESPACE],
+    deactivate = false,
+  ) {
+    if (!settings.rollups_enabled && !deactivate) {
+      return;
+    }
+    if (!this.client) {
+      this.logger.warn('InfluxDB Service: Rollups require InfluxDB 2.x');
+      return;
+    }
+
+    const provisioner = new RollupProvisioner(
+      this.client,
+      settings.organization,
+      this.logger,
+    );
+    const options = {
+      bucket: settings.bucket,
+      subjectTag: settings.subject_tagname || DEFAULT_DIMENSION,
+      measurements: getMeasurementNames(
+        settings.naming_strategy,
+        settings.measurement_prefix,
+      ),
+      rollups: [
+        {
+          name: 'hourly',
+          every: '1h',
+          retention: settings.rollup_hourly_retention,
+        },
+        {
+          name: 'daily',
+          every: '1d',
+          retention: settings.rollup_daily_retention,
+        },
+      ],
+    };
+    try {
+      if (settings.rollups_enabled) {
+        await provisioner.provision(options);
+      } else {
+        await provisioner.deactivate(options);
+      }
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Unable to provision rollups', err);
+    }
+  }
+
   /**
    * Get language iso code from the subscriber object when found, otherwise from the language nlp entity.
    *
@@ -104,61 +886,116 @@ export default class InfluxdbHelper
 
   /**
    * Builds a dictionnary of tags (language, nlp, ...)
+   * NLP entities that are not allowed as tags are demoted to fields (prefixed with `nlp_`),
+   * and tag values are capped to the max number of distinct values per tag.
    *
    * @param event - Channel event
    *
-   * @returns Dictionnary of tags
+   * @returns Dictionnary of tags along with the demoted entity fields
    */
-  private getMessageTags(event: EventWrapper<any, any>) {
-    let tagsMap: { [tag: string]: string } = {
+  private async getMessageTags(
+    event: EventWrapper<any, any>,
+  ): Promise<{ tags: InfluxTags; fields: InfluxFields }> {
+    const settings = await this.getSettings();
+    const options = {
+      allowlist: settings.nlp_tag_allowlist || [],
+      denylist: settings.nlp_tag_denylist || [],
+      maxValues: settings.nlp_tag_max_values,
+    };
+    const tags: InfluxTags = {
       language: this.getLanguage(event) || 'unknown',
     };
+    const fields: InfluxFields = {};
     // Populate tags with nlp entities/values (except language)
     const nlp = event.getNLP();
     if (nlp && nlp.entities) {
-      tagsMap = nlp.entities
+      nlp.entities
         .filter((a) => !!a.entity && !!a.value && a.entity !== 'language')
-        .reduce((acc, a) => {
-          acc[a.entity] = a.value;
-          return acc;
-        }, tagsMap);
+        .forEach((a) => {
+          if (this.cardinalityGuard.isAllowed(a.entity, options)) {
+            tags[a.entity] = this.cardinalityGuard.limit(
+              a.entity,
+              a.value,
+              options,
+            );
+          } else {
+            fields[`nlp_${a.entity}`] = {
+              type: 'string',
+              value: a.value,
+            };
+          }
+        });
     }
-    // Returns tags as an array of strings
-    return tagsMap;
+    return { tags, fields };
   }
 
   /**
    * Constructs a structured object of InfluxDB fields from a given subscriber object.
    * This method maps subscriber information into a format suitable for InfluxDB insertion,
    * organizing key subscriber details into field objects with designated value types.
+   * Personal details (foreign id, first and last name) are kept, hashed, truncated or omitted
+   * according to the privacy settings.
+   * Details to hash are omitted, with a warning, while the privacy salt is empty.
    *
    * @param subscriber - The subscriber object containing essential information.
    *
    * @returns An object representing the InfluxDB fields, each containing the type of the field and its value.
    */
-  private getSubscriberFields({
+  private async getSubscriberFields({
     id,
     foreign_id,
     first_name,
     last_name,
-  }: Subscriber): InfluxFields {
+  }: Subscriber): Promise<InfluxFields> {
+    const settings = await this.getSettings();
+    const missingSalt =
+      !settings.privacy_salt &&
+      [
+        settings.foreign_id_privacy,
+        settings.first_name_privacy,
+        settings.last_name_privacy,
+      ].includes('hash');
+    if (missingSalt && !this.missingSaltWarned) {
+      this.logger.warn(
+        'InfluxDB Service: The subscriber details to hash are omitted until a privacy salt is set',
+      );
+    }
+    this.missingSaltWarned = missingSalt;
+    const personalFields = Object.entries({
+      foreign_id: applyPrivacy(
+        foreign_id,
+        settings.foreign_id_privacy,
+        settings.privacy_salt,
+      ),
+      first_name: applyPrivacy(
+        first_name,
+        settings.first_name_privacy,
+        settings.privacy_salt,
+      ),
+      last_name: applyPrivacy(
+        last_name,
+        settings.last_name_privacy,
+        settings.privacy_salt,
+      ),
+    })
+      .filter(([, value]) => value !== null)
+      .reduce(
+        (acc, [key, value]) => ({
+          ...acc,
+          [key]: {
+            type: 'string',
+            value,
+          },
+        }),
+        {} as InfluxFields,
+      );
+
     return {
       recipient: {
         type: 'string',
         value: id,
       },
-      foreign_id: {
-        type: 'string',
-        value: foreign_id,
-      },
-      first_name: {
-        type: 'string',
-        value: first_name,
-      },
-      last_name: {
-        type: 'string',
-        value: last_name,
-      },
+      ...personalFields,
     };
   }
 
@@ -204,46 +1041,171 @@ export default class InfluxdbHelper
   }
 
   /**
-   * Constructs a structured object of InfluxDB fields from a map of extra fields.
-   * This method processes a key-value map where each value's data type determines how it
-   * should be represented in InfluxDB. Special handling is applied for strings, numbers, booleans,
-   * and objects (serialized as JSON strings).
+   * Builds the fields describing the content of a received message.
    *
-   * @param extraFields - A map where keys are field names and values are the data to be stored in those fields.
+   * @param event - The event wrapper of the received message.
    *
-   * @returns An object representing the InfluxDB fields, each encapsulating the type and value of the field,
-   * structured appropriately for database entry.
+   * @returns The message type (text, quick_reply, postback, location or attachment),
+   *          the attachment type if any and the text length.
    */
-  private getPluginFields(extraFields: { [key: string]: any }): InfluxFields {
-    return Object.keys(extraFields).reduce((acc, key) => {
-      let value = extraFields[key];
-      let type: string | null = null;
-      if (typeof value === 'string') {
-        type = 'string';
-      } else if (typeof value === 'number') {
-        type = 'float';
-      } else if (typeof value === 'boolean') {
-        type = 'boolean';
-      } else if (typeof value === 'object') {
-        // like an error object for example
-        type = 'string';
-        value = JSON.stringify(value);
-      }
-      return type
-        ? {
-            ...acc,
-            [key]: {
-              type,
-              value,
-            },
-          }
-        : acc;
-    }, {});
+  private getIncomingMessageFields(
+    event: EventWrapper<any, any>,
+  ): InfluxFields {
+    const messageType = event.getMessageType();
+    const text = event.getText();
+    const fields: InfluxFields = {
+      message_type: {
+        type: 'string',
+        value: messageType === 'message' ? 'text' : messageType || 'unknown',
+      },
+      text_length: {
+        type: 'int',
+        value: text ? text.length : 0,
+      },
+    };
+    if (messageType === 'attachment') {
+      const { attachment } = event.getMessage() || {};
+      fields.attachment_type = {
+        type: 'string',
+        value:
+          (Array.isArray(attachment) ? attachment[0] : attachment)?.type ||
+          'unknown',
+      };
+    }
+    return fields;
   }
 
   /**
-   * Determines the subject for a given block based on its name. This method uses a regular expression
-   * constructed from predefined subjects to extract a relevant subject from the block name. If no
+   * Builds the fields describing the content of a message sent by the bot.
+   *
+   * @param message - The sent message.
+   *
+   * @returns The message format (text, quick_replies, buttons, attachment, list or carousel),
+   *          the attachment type if any, the text length and the number of buttons and quick replies.
+   */
+  private getOutgoingMessageFields(message: StdOutgoingMessage): InfluxFields {
+    let messageType = 'text';
+    if ('attachment' in message) {
+      messageType = 'attachment';
+    } else if ('elements' in message) {
+      messageType = message.options?.display || 'list';
+    } else if ('buttons' in message) {
+      messageType = 'buttons';
+    } else if ('quickReplies' in message) {
+      messageType = 'quick_replies';
+    }
+
+    const fields: InfluxFields = {
+      message_type: {
+        type: 'string',
+        value: messageType,
+      },
+      text_length: {
+        type: 'int',
+        value: 'text' in message && message.text ? message.text.length : 0,
+      },
+      buttons_count: {
+        type: 'int',
+        value: 'buttons' in message ? message.buttons?.length || 0 : 0,
+      },
+      quick_replies_count: {
+        type: 'int',
+        value:
+          'quickReplies' in message ? message.quickReplies?.length || 0 : 0,
+      },
+    };
+    if ('attachment' in message) {
+      fields.attachment_type = {
+        type: 'string',
+        value: message.attachment?.type || 'unknown',
+      };
+    }
+    return fields;
+  }
+
+  /**
+   * Builds the fields describing the content of a received message, as stored by Hexabot.
+   *
+   * @param message - The stored message.
+   *
+   * @returns The message type (text, postback, location or attachment), the attachment type
+   *          if any and the text length.
+   */
+  private getStoredIncomingMessageFields(
+    message: StdIncomingMessage,
+  ): InfluxFields {
+    let messageType = 'text';
+    if ('postback' in message) {
+      messageType = 'postback';
+    } else if ('coordinates' in message) {
+      messageType = 'location';
+    } else if ('attachment' in message) {
+      messageType = 'attachment';
+    }
+
+    const fields: InfluxFields = {
+      message_type: {
+        type: 'string',
+        value: messageType,
+      },
+      text_length: {
+        type: 'int',
+        value: 'text' in message && message.text ? message.text.length : 0,
+      },
+    };
+    if ('attachment' in message) {
+      const { attachment } = message;
+      fields.attachment_type = {
+        type: 'string',
+        value:
+          (Array.isArray(attachment) ? attachment[0] : attachment)?.type ||
+          'unknown',
+      };
+    }
+    return fields;
+  }
+
+  /**
+   * Constructs a structured object of InfluxDB fields from a map of extra fields.
+   * This method processes a key-value map where each value's data type determines how it
+   * should be represented in InfluxDB. Special handling is applied for strings, numbers, booleans,
+   * and objects (serialized as JSON strings).
+   *
+   * @param extraFields - A map where keys are field names and values are the data to be stored in those fields.
+   *
+   * @returns An object representing the InfluxDB fields, each encapsulating the type and value of the field,
+   * structured appropriately for database entry.
+   */
+  private getPluginFields(extraFields: { [key: string]: any }): InfluxFields {
+    return Object.keys(extraFields).reduce((acc, key) => {
+      let value = extraFields[key];
+      let type: string | null = null;
+      if (typeof value === 'string') {
+        type = 'string';
+      } else if (typeof value === 'number') {
+        type = 'float';
+      } else if (typeof value === 'boolean') {
+        type = 'boolean';
+      } else if (typeof value === 'object') {
+        // like an error object for example
+        type = 'string';
+        value = JSON.stringify(value);
+      }
+      return type
+        ? {
+            ...acc,
+            [key]: {
+              type,
+              value,
+            },
+          }
+        : acc;
+    }, {});
+  }
+
+  /**
+   * Determines the subject for a given block based on its name. This method uses a regular expression
+   * constructed from predefined subjects to extract a relevant subject from the block name. If no
    * matching subject is found, a default subject is assigned. Subjects are used to group specfic
    * blocks related to a given subject.
    *
@@ -261,55 +1223,122 @@ export default class InfluxdbHelper
     return subject;
   }
 
+  /**
+   * Classifies a block along the dimensions declared by the classification rules (subject, journey, ...).
+   * Rules can match the block category, id, exact name, name regex or options. When no rule assigns
+   * a subject, the subject is derived from the block name (see `getBlockSubject()`).
+   *
+   * @param block - The block to classify.
+   *
+   * @returns A dictionnary of tags, the subject being tagged using the configured subject tag name.
+   */
+  private async getBlockClassificationTags(
+    block: BlockFull | Block,
+  ): Promise<InfluxTags> {
+    const { subject_rules, subject_tagname } = await this.getSettings();
+    const { [DEFAULT_DIMENSION]: subject, ...dimensions } =
+      this.blockClassifier.classify(block, subject_rules);
+    return {
+      ...dimensions,
+      [subject_tagname || DEFAULT_DIMENSION]:
+        subject || (await this.getBlockSubject(block.name)),
+    };
+  }
+
   /**
    * Logs an event to InfluxDB with specified name, value, tags, and additional fields.
    * This method constructs a data point for InfluxDB, assigns a main floating point value,
    * adds any additional fields based on their types, tags the data for better aggregation,
-   * and finally writes the point to InfluxDB. Errors in logging are handled gracefully and logged.
+   * and finally queues the point in the shared write pipeline which sends it to InfluxDB in batches.
+   * Errors in logging are handled gracefully and logged.
    *
-   * @param name - The name of the event or measurement.
+   * @param name - The name of the event or measurement, renamed according to the naming strategy.
    * @param value - The main numeric value associated with the event, used for aggregation calculations.
    * @param tags - A collection of tags associated with the event for indexing and query efficiency.
    * @param fields - A collection of additional data fields, each having a type and value, to be included with the event.
+   * @param options - Optional settings of the point: the sampling rate it was kept with, the subscriber it relates to and the date of the event.
    *
-   * @returns A promise resolved with the result of the InfluxDB write operation or rejected with an error if the write fails.
+   * @returns A promise resolved once the point is queued for writing.
    */
   public async logEvent(
     name: string,
     value: number,
     tags: InfluxTags,
     fields: InfluxFields,
+    options: LogEventOptions = {},
   ) {
-    const { organization, bucket } = await this.getSettings();
-    const iWrite = this.client.getWriteApi(organization, bucket, 'ns');
+    const settings = await this.getSettings();
+    const { naming_strategy, measurement_prefix } = settings;
 
     // Create measure name
-    const point = new Point(name);
+    const measurement = getMeasurementName(
+      name,
+      naming_strategy,
+      measurement_prefix,
+    );
 
-    // Set value, 1 as count value, others for avg, sum, ...
-    point.floatField('value', value);
+    // Build the point within the try: an invalid value drops the event rather than throwing
+    try {
+      const point = new Point(measurement);
 
-    // Add extra fields
-    Object.entries(fields)
-      .filter(([, { value }]) => !!value)
-      .forEach(([key, { type, value }]) => {
-        point[`${type}Field`](key, value);
-      });
+      // Stamp the point with the date of the event rather than the date of the write,
+      // keeping distinct timestamps for the events of a series within the same millisecond
+      point.timestamp(
+        this.timestamps.next(
+          options.timestamp || new Date(),
+          settings.write_precision,
+          options.id,
+        ),
+      );
 
-    // Add tags for aggregations
-    Object.entries(tags)
-      .filter(([, value]) => !!value)
-      .forEach(([key, value]) => {
-        point.tag(key, value);
-      });
+      // Set value, 1 as count value, others for avg, sum, ...
+      point.floatField('value', value);
 
-    // Track event (send it to influxdb)
-    try {
-      iWrite.writePoint(point);
-      const res = await iWrite.close();
-      this.logger.log('InfluxDB Service: Successfully logged: ', name);
-      return res;
+      // Add extra fields, leaving out the missing values and the numbers InfluxDB cannot store (NaN, ±Infinity)
+      Object.entries(fields)
+        .filter(([, { type, value }]) =>
+          type === 'float' || type === 'int'
+            ? Number.isFinite(value)
+            : value !== null && value !== undefined,
+        )
+        .forEach(([key, { type, value }]) => {
+          point[`${type}Field`](key, value);
+        });
+
+      // Keep track of the sampling rate so that counts can be scaled back
+      if (options.sampleRate !== undefined) {
+        point.floatField('sample_rate', options.sampleRate);
+      }
+
+      // Add tags for aggregations
+      Object.entries(tags)
+        .filter(([, value]) => !!value)
+        .forEach(([key, value]) => {
+          point.tag(key, value);
+        });
+      point.tag('schema_version', SCHEMA_VERSION);
+
+      // Track event (queue it, the pipeline of its destination sends it to influxdb)
+      const destination = this.pointRouter.route(
+        {
+          measurement: name,
+          tags,
+          subjectTag: settings.subject_tagname || DEFAULT_DIMENSION,
+          subscriber: options.subscriber,
+        },
+        settings.routing_rules,
+      );
+      const sink = destination
+        ? this.getRouteSink(settings, destination)
+        : this.pipeline;
+      sink.write(point);
+      if (settings.sink_mode === 'both') {
+        this.fileSink.write(point);
+      }
+      this.telemetry.increment(Metric.points, { measurement });
+      this.logger.debug('InfluxDB Service: Queued analytic event: ', name);
     } catch (err) {
+      this.telemetry.increment(Metric.pointsDropped, { reason: 'error' });
       this.logger.error('InfluxDB Service: Error sending analytic event', err);
     }
   }
@@ -321,23 +1350,45 @@ export default class InfluxdbHelper
    * and fields are derived from the subscriber's details.
    *
    * @param event - The event wrapper object containing details about the message and sender.
+   * @param sent - The message sent by the bot.
+   * @param responseTime - The delay (in ms) since the received message, if this is the first reply to it.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous logging operation, resolved when the event is successfully logged.
    */
-  private logMessageSentEvent(event: EventWrapper<any, any>) {
+  private async logMessageSentEvent(
+    event: EventWrapper<any, any>,
+    sent: OutgoingMessage,
+    responseTime: number | null,
+    sampleRate?: number,
+    timestamp?: Date,
+  ) {
     const subscriber = event.getSender();
+    const messageTags = await this.getMessageTags(event);
     const tags = {
-      ...this.getMessageTags(event),
+      ...messageTags.tags,
       channel: event._handler.getName() || 'unknown',
       type: 'message',
     };
-    const fields = this.getSubscriberFields(subscriber);
-    return this.logEvent(
-      `Event - ${slug('Message sent', ' ')}`,
-      1,
-      tags,
-      fields,
-    );
+    const fields: InfluxFields = {
+      ...(await this.getSubscriberFields(subscriber)),
+      ...messageTags.fields,
+      ...(sent && sent.message
+        ? this.getOutgoingMessageFields(sent.message)
+        : {}),
+    };
+    if (responseTime !== null) {
+      fields.response_time_sec = {
+        type: 'float',
+        value: responseTime / 1000,
+      };
+    }
+    return this.logEvent(Measurement.messageSent, 1, tags, fields, {
+      sampleRate,
+      subscriber,
+      timestamp,
+    });
   }
 
   /**
@@ -347,23 +1398,97 @@ export default class InfluxdbHelper
    * analytics or monitoring system.
    *
    * @param event - The event wrapper object that encapsulates details about the received message and its sender.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is successfully completed.
    */
-  private logMessageReceivedEvent(event: EventWrapper<any, any>) {
+  private async logMessageReceivedEvent(
+    event: EventWrapper<any, any>,
+    sampleRate?: number,
+    timestamp?: Date,
+  ) {
     const subscriber = event.getSender();
+    const messageTags = await this.getMessageTags(event);
     const tags = {
-      ...this.getMessageTags(event),
+      ...messageTags.tags,
       channel: event._handler.getName() || 'unknown',
       type: 'message',
     };
-    const fields = this.getSubscriberFields(subscriber);
-    return this.logEvent(
-      `Event - ${slug('Message received', ' ')}`,
-      1,
-      tags,
-      fields,
-    );
+    const fields = {
+      ...(await this.getSubscriberFields(subscriber)),
+      ...messageTags.fields,
+      ...this.getIncomingMessageFields(event),
+    };
+    return this.logEvent(Measurement.messageReceived, 1, tags, fields, {
+      sampleRate,
+      subscriber,
+      timestamp,
+    });
+  }
+
+  /**
+   * Logs the NLP of a received message: its top intent and confidence, the number of entities,
+   * whether the confidence is below the configured threshold and which fallback, if any, the message hit.
+   *
+   * @param event - The event wrapper of the received message.
+   * @param fallback - The fallback hit by the message, 'none' if it did not hit any.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logNlpEvent(
+    event: EventWrapper<any, any>,
+    fallback: NlpFallback,
+    sampleRate?: number,
+    timestamp?: Date,
+  ) {
+    const settings = await this.getSettings();
+    const entities = event.getNLP()?.entities || [];
+    const intent = entities
+      .filter(({ entity }) => entity === 'intent')
+      .reduce(
+        (top, entity) =>
+          !top || entity.confidence > top.confidence ? entity : top,
+        null,
+      );
+    const confidence = intent ? intent.confidence : 0;
+
+    const tags = {
+      channel: event._handler.getName() || 'unknown',
+      type: 'nlp',
+      intent: intent
+        ? this.cardinalityGuard.limit('intent', intent.value, {
+            allowlist: settings.nlp_tag_allowlist || [],
+            denylist: settings.nlp_tag_denylist || [],
+            maxValues: settings.nlp_tag_max_values,
+          })
+        : 'none',
+      fallback,
+    };
+    const fields: InfluxFields = {
+      ...(await this.getSubscriberFields(event.getSender())),
+      confidence: {
+        type: 'float',
+        value: confidence,
+      },
+      entity_count: {
+        type: 'int',
+        value: entities.filter(
+          ({ entity }) => entity !== 'intent' && entity !== 'language',
+        ).length,
+      },
+      low_confidence: {
+        type: 'boolean',
+        value: confidence < settings.nlp_confidence_threshold,
+      },
+    };
+    return this.logEvent(Measurement.nlp, 1, tags, fields, {
+      sampleRate,
+      subscriber: event.getSender(),
+      timestamp,
+    });
   }
 
   /**
@@ -375,6 +1500,8 @@ export default class InfluxdbHelper
    * @param event - The event wrapper containing details about the event and its initiator.
    * @param block - The block object related to the event, containing information like the block name.
    * @param context - Additional contextual information relevant to the event, such as the current state or user interactions.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the event logging is successfully completed.
    */
@@ -382,23 +1509,29 @@ export default class InfluxdbHelper
     event: EventWrapper<any, any>,
     block: BlockFull,
     context: Context,
+    sampleRate?: number,
+    timestamp?: Date,
   ) {
-    const settings = await this.getSettings();
     const subscriber = event.getSender();
-    const subjectKey = settings.subject_tagname || 'subject';
+    const messageTags = await this.getMessageTags(event);
     const tags = {
-      ...this.getMessageTags(event),
+      ...messageTags.tags,
+      ...(await this.getBlockClassificationTags(block)),
       channel: event._handler.getName() || 'unknown',
       type: 'block',
-      [subjectKey]: await this.getBlockSubject(block.name),
       category: block.category?.label || 'unknown',
     };
 
     const fields: InfluxFields = {
-      ...this.getSubscriberFields(subscriber),
+      ...(await this.getSubscriberFields(subscriber)),
+      ...messageTags.fields,
       ...this.getBlockFields(event, block, context),
     };
-    return this.logEvent(`Block`, 1, tags, fields);
+    return this.logEvent(Measurement.block, 1, tags, fields, {
+      sampleRate,
+      subscriber,
+      timestamp,
+    });
   }
 
   /**
@@ -408,20 +1541,89 @@ export default class InfluxdbHelper
    *
    * @param subscriber - The subscriber object whose details are logged along with the event.
    * @param isHandover - A boolean flag determining whether the event is a handover (true) or handback (false).
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
+   * @param id - The id of the event, when it may be written again (e.g. backfill).
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
    */
-  private logHandoverEvent(subscriber: Subscriber, isHandover: boolean) {
+  private async logHandoverEvent(
+    subscriber: Subscriber,
+    isHandover: boolean,
+    sampleRate?: number,
+    timestamp?: Date,
+    id?: string,
+  ) {
     const tags = {
       channel: subscriber.channel && subscriber.channel.name,
       type: 'passation',
     };
-    const fields = this.getSubscriberFields(subscriber);
+    const fields = await this.getSubscriberFields(subscriber);
     return this.logEvent(
-      `${isHandover ? 'Handover' : 'Handback'}`,
+      isHandover ? Measurement.handover : Measurement.handback,
       1,
       tags,
       fields,
+      { sampleRate, subscriber, timestamp, id },
+    );
+  }
+
+  /**
+   * Logs a resolved handover, correlating the handover with the matching intervention, the agent
+   * replies and the handback. The main value is the total time spent with a human (in minutes).
+   *
+   * @param handover - The resolved handover.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logHandoverResolvedEvent({
+    subscriber,
+    channel,
+    handoverAt,
+    openedAt,
+    firstAgentReplyAt,
+    agentMessages,
+    handbackAt,
+    returnedToBot,
+  }: Handover) {
+    const tags = {
+      channel,
+      type: 'passation',
+    };
+    const duration = handbackAt.getTime() - handoverAt.getTime();
+    const fields: InfluxFields = {
+      ...(await this.getSubscriberFields(subscriber)),
+      human_time_sec: {
+        type: 'float',
+        value: duration / 1000,
+      },
+      agent_messages: {
+        type: 'int',
+        value: agentMessages,
+      },
+      returned_to_bot: {
+        type: 'boolean',
+        value: returnedToBot,
+      },
+    };
+    if (openedAt) {
+      fields.intervention_delay_sec = {
+        type: 'float',
+        value: (openedAt.getTime() - handoverAt.getTime()) / 1000,
+      };
+    }
+    if (firstAgentReplyAt) {
+      fields.first_reply_sec = {
+        type: 'float',
+        value: (firstAgentReplyAt.getTime() - handoverAt.getTime()) / 1000,
+      };
+    }
+    return this.logEvent(
+      Measurement.handoverResolved,
+      duration / (60 * 1000), // in minutes
+      tags,
+      fields,
+      { subscriber, timestamp: handoverAt },
     );
   }
 
@@ -434,29 +1636,36 @@ export default class InfluxdbHelper
    * @param event - The event wrapper containing details about the event and its initiator.
    * @param block - Optional. The block object associated with the fallback, if it is local.
    * @param context - Optional. Contextual information relevant to the event and block, used for additional logging details.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is successfully completed.
    */
-  private logFallbackEvent(
+  private async logFallbackEvent(
     event: EventWrapper<any, any>,
     block?: BlockFull,
     context?: Context,
+    sampleRate?: number,
+    timestamp?: Date,
   ) {
     const subscriber = event.getSender();
+    const messageTags = await this.getMessageTags(event);
     const tags = {
-      ...this.getMessageTags(event),
+      ...messageTags.tags,
       channel: event._handler.getName() || 'unknown',
       type: 'fallback',
     };
     const fields = {
-      ...this.getSubscriberFields(subscriber),
+      ...(await this.getSubscriberFields(subscriber)),
+      ...messageTags.fields,
       ...(block ? this.getBlockFields(event, block, context) : {}),
     };
     return this.logEvent(
-      `${block ? 'Local Fallback' : 'Global Fallback'}`,
+      block ? Measurement.localFallback : Measurement.globalFallback,
       1,
       tags,
       fields,
+      { sampleRate, subscriber, timestamp },
     );
   }
 
@@ -467,11 +1676,17 @@ export default class InfluxdbHelper
    * and delays in multiple time units (seconds, minutes, hours) for comprehensive analysis.
    *
    * @param subscriber - The subscriber object detailing who the intervention pertains to and when it was assigned.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is successfully completed,
    *          or undefined if the subscriber was not assigned an intervention.
    */
-  private logInterventionEvent(subscriber: Subscriber) {
+  private async logInterventionEvent(
+    subscriber: Subscriber,
+    sampleRate?: number,
+    timestamp?: Date,
+  ) {
     if (
       subscriber &&
       subscriber.assignedAt &&
@@ -481,13 +1696,14 @@ export default class InfluxdbHelper
         channel: subscriber.channel && subscriber.channel.name,
         type: 'intervention',
       };
-      const currentDatetime = new Date();
+      // Opening date of the intervention
+      const currentDatetime = timestamp || new Date();
       const delay = Math.abs(
         currentDatetime.getTime() - subscriber.assignedAt.getTime(),
       );
 
       const fields: InfluxFields = {
-        ...this.getSubscriberFields(subscriber),
+        ...(await this.getSubscriberFields(subscriber)),
         assigned_at: {
           type: 'string',
           value: subscriber.assignedAt.toString(),
@@ -518,10 +1734,11 @@ export default class InfluxdbHelper
         },
       };
       return this.logEvent(
-        'Intervention Opened',
+        Measurement.interventionOpened,
         delay / (60 * 1000), // in minutes
         tags,
         fields,
+        { sampleRate, subscriber, timestamp },
       );
     }
   }
@@ -536,14 +1753,16 @@ export default class InfluxdbHelper
    * @param block - The block object associated with the event, which may include additional contextual details.
    * @param context - The context in which the event occurs, containing user and channel information.
    * @param extraFields - A map of additional fields that provide further details specific to the plugin event.
+   * @param timestamp - The date of the event, defaults to now.
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
    */
-  public logPluginEvent(
+  public async logPluginEvent(
     pluginTitle: string,
     block: BlockFull | Block,
     context: Context,
     extraFields: { [key: string]: any },
+    timestamp?: Date,
   ) {
     const subscriber = context.user;
     const tags = {
@@ -551,7 +1770,7 @@ export default class InfluxdbHelper
       type: 'plugin',
     };
     const fields: InfluxFields = {
-      ...this.getSubscriberFields(subscriber),
+      ...(await this.getSubscriberFields(subscriber)),
       ...this.getBlockFields(null, block, context),
       plugin: {
         type: 'string',
@@ -559,70 +1778,1044 @@ export default class InfluxdbHelper
       },
       ...this.getPluginFields(extraFields),
     };
-    return this.logEvent(`Plugin`, 1, tags, fields);
+    return this.logEvent(Measurement.plugin, 1, tags, fields, {
+      subscriber,
+      timestamp,
+    });
+  }
+
+  /**
+   * Registers the schema of a measurement tracked through `track()`, declaring its tags and
+   * typed fields. Throws if the schema conflicts with a previously registered one.
+   *
+   * @param schema - The measurement schema.
+   */
+  public registerSchema(schema: TrackSchema) {
+    this.schemaRegistry.register(schema);
+  }
+
+  /**
+   * Logs an event of a registered measurement. Tags and fields are validated against the
+   * measurement schema, so that points are never written with inconsistent types.
+   *
+   * @param event - The tracked event.
+   *
+   * @returns A promise resolved when the event is queued, rejected with the validation errors if any.
+   */
+  public async track(event: TrackEvent) {
+    const { errors, tags, fields } = this.schemaRegistry.validate(event);
+    if (errors.length) {
+      throw new Error(
+        `Invalid "${event.measurement}" event: ${errors.join('; ')}`,
+      );
+    }
+    return this.logEvent(event.measurement, event.value ?? 1, tags, fields, {
+      timestamp: event.timestamp,
+    });
   }
 
   /**
    * Logs an insight event for the bot, capturing essential details about the type of event and subscriber information.
    * This method tags the event with the channel, event name, and type, while also gathering comprehensive subscriber
    * details to log as fields. It's designed to help in analyzing various metrics related to bot interactions.
+   * Events without subscriber are tagged with an `unknown` channel and come without subscriber fields.
    *
    * @param type - The type of insight event, categorized by BotStatsType.
    * @param name - The name of the insight event, providing a specific identifier for the type of data being logged.
-   * @param subscriber - The subscriber object, containing details such as the channel name.
+   * @param subscriber - The subscriber object, containing details such as the channel name, if any.
+   * @param sampleRate - The sampling rate the event was kept with.
+   * @param timestamp - The date of the event, defaults to now.
+   * @param id - The id of the event, when it may be written again (e.g. backfill).
    *
    * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is successfully completed.
    */
-  public logStatEvent(
+  public async logStatEvent(
     type: BotStatsType,
     name: string,
-    subscriber: Subscriber,
+    subscriber?: Subscriber,
+    sampleRate?: number,
+    timestamp?: Date,
+    id?: string,
   ) {
     const tags = {
-      channel: subscriber.channel && subscriber.channel.name,
+      channel: subscriber?.channel?.name || 'unknown',
       name,
       type,
     };
-    const fields = this.getSubscriberFields(subscriber);
-    return this.logEvent(`Stats`, 1, tags, fields);
+    const fields = subscriber ? await this.getSubscriberFields(subscriber) : {};
+    return this.logEvent(Measurement.stats, 1, tags, fields, {
+      sampleRate,
+      subscriber,
+      timestamp,
+      id,
+    });
   }
 
-  @OnEvent('hook:chatbot:sent')
-  handleMessageSent(_sent: OutgoingMessage, event: EventWrapper<any, any>) {
-    if (event) {
-      this.logMessageSentEvent(event);
-    }
+  /**
+   * Logs the start of a conversation session, that is the first activity of a subscriber
+   * after being idle for longer than the session timeout.
+   *
+   * @param session - The session that just started.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logSessionStartEvent({
+    subscriber,
+    channel,
+    startedAt,
+  }: Session) {
+    const tags = {
+      channel,
+      type: 'session',
+    };
+    const fields = await this.getSubscriberFields(subscriber);
+    return this.logEvent(Measurement.sessionStart, 1, tags, fields, {
+      subscriber,
+      timestamp: startedAt,
+    });
   }
 
-  @OnEvent('hook:chatbot:received')
-  handleMessageReceived(event: EventWrapper<any, any>) {
-    if (event) {
-      this.logMessageReceivedEvent(event);
-    }
+  /**
+   * Logs the end of a conversation session along with its duration (also used as the main value, in minutes)
+   * and depth : messages received and sent, blocks traversed, fallbacks hit and whether a handover occurred.
+   *
+   * @param session - The session that just ended.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logSessionEndEvent(session: Session) {
+    const tags = {
+      channel: session.channel,
+      type: 'session',
+    };
+    const duration =
+      session.lastActivityAt.getTime() - session.startedAt.getTime();
+    const fields: InfluxFields = {
+      ...(await this.getSubscriberFields(session.subscriber)),
+      duration_sec: {
+        type: 'float',
+        value: duration / 1000,
+      },
+      messages_received: {
+        type: 'int',
+        value: session.received,
+      },
+      messages_sent: {
+        type: 'int',
+        value: session.sent,
+      },
+      blocks: {
+        type: 'int',
+        value: session.blocks,
+      },
+      fallbacks: {
+        type: 'int',
+        value: session.fallbacks,
+      },
+      handover: {
+        type: 'boolean',
+        value: session.handover,
+      },
+    };
+    return this.logEvent(
+      Measurement.sessionEnd,
+      duration / (60 * 1000), // in minutes
+      tags,
+      fields,
+      { subscriber: session.subscriber, timestamp: session.lastActivityAt },
+    );
   }
 
-  @OnEvent('hook:analytics:block')
-  handleBlockTrigger(
-    block: BlockFull,
-    event: EventWrapper<any, any>,
-    context: Context,
+  /**
+   * Logs an event of a given family unless it gets dropped by the sampling. Errors are logged
+   * rather than thrown, as the event handlers do not wait for the event to be logged.
+   *
+   * @param family - The event family.
+   * @param subscriber - The subscriber the event relates to, if any.
+   * @param log - Logs the event, given the sampling rate it was kept with and the date of the event.
+   */
+  private async logSampled(
+    family: EventFamily,
+    subscriber: Subscriber | undefined,
+    log: (sampleRate: number, timestamp: Date) => Promise<unknown>,
   ) {
-    if (event && block && block.name) {
-      this.logBlockEvent(event, block, context);
+    // Taken before reading the settings, as the date of the event
+    const timestamp = new Date();
+    try {
+      const { event_sampling, sampling_per_subscriber } =
+        await this.getSettings();
+      const sampleRate = this.sampler.sample(
+        event_sampling,
+        family,
+        subscriber?.id,
+        sampling_per_subscriber,
+      );
+      if (sampleRate > 0) {
+        await log(sampleRate, timestamp);
+        return;
+      }
+      this.telemetry.increment(Metric.pointsDropped, { reason: 'sampled' });
+    } catch (err) {
+      this.telemetry.increment(Metric.pointsDropped, { reason: 'error' });
+      this.logger.error(
+        `InfluxDB Service: Unable to log a ${family} event`,
+        err,
+      );
     }
   }
 
-  @OnEvent('hook:analytics:passation')
-  handleHandover(subscriber: Subscriber, isHandover: boolean) {
-    if (subscriber) {
-      this.logHandoverEvent(subscriber, isHandover);
-    }
-  }
+  /**
+   * Records the outcome of a received message, logging its NLP.
+   *
+   * @param event - The event wrapper of the received message.
+   * @param fallback - The fallback hit by the message, 'none' if it triggered a block.
+   */
+  private resolveNlp(event: EventWrapper<any, any>, fallback: NlpFallback) {
+    this.nlpTracker.resolve(event.getId(), fallback).catch((err) => {
+      this.logger.error('InfluxDB Service: Unable to log NLP', err);
+    });
+  }
+
+  /**
+   * Records a subscriber activity in its conversation session.
+   *
+   * @param subscriber - The subscriber.
+   * @param channel - The channel name.
+   * @param activity - The kind of activity.
+   */
+  private trackSession(
+    subscriber: Subscriber,
+    channel: string,
+    activity: SessionActivity,
+  ) {
+    if (subscriber) {
+      this.sessionTracker
+        .track(subscriber, channel || 'unknown', activity)
+        .catch((err) => {
+          this.logger.error('InfluxDB Service: Unable to track session', err);
+        });
+    }
+  }
+
+  /**
+   * Builds the tags and fields shared by all the funnel events.
+   *
+   * @param progress - The subscriber progress through the funnel.
+   *
+   * @returns The funnel tags and fields, including the time elapsed since the funnel start.
+   */
+  private async getFunnelTagsAndFields({
+    funnel,
+    subscriber,
+    channel,
+    step,
+    startedAt,
+    lastStepAt,
+  }: FunnelProgress): Promise<{ tags: InfluxTags; fields: InfluxFields }> {
+    return {
+      tags: {
+        channel,
+        type: 'funnel',
+        funnel: funnel.name,
+      },
+      fields: {
+        ...(await this.getSubscriberFields(subscriber)),
+        step_index: {
+          type: 'int',
+          value: step,
+        },
+        elapsed_sec: {
+          type: 'float',
+          value: (lastStepAt.getTime() - startedAt.getTime()) / 1000,
+        },
+      },
+    };
+  }
+
+  /**
+   * Logs a subscriber reaching a funnel step. The step index is also written as a tag
+   * so that funnel charts can be grouped by step.
+   *
+   * @param progress - The subscriber progress through the funnel.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logFunnelStepEvent(progress: FunnelProgress) {
+    const { tags, fields } = await this.getFunnelTagsAndFields(progress);
+    return this.logEvent(
+      Measurement.funnelStep,
+      1,
+      { ...tags, step: String(progress.step) },
+      fields,
+      { subscriber: progress.subscriber, timestamp: progress.lastStepAt },
+    );
+  }
+
+  /**
+   * Logs a subscriber completing a funnel, the main value being the time it took (in minutes).
+   *
+   * @param progress - The subscriber progress through the funnel.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logFunnelConvertedEvent(progress: FunnelProgress) {
+    const { tags, fields } = await this.getFunnelTagsAndFields(progress);
+    const duration =
+      progress.lastStepAt.getTime() - progress.startedAt.getTime();
+    return this.logEvent(
+      Measurement.funnelConverted,
+      duration / (60 * 1000), // in minutes
+      tags,
+      fields,
+      { subscriber: progress.subscriber, timestamp: progress.lastStepAt },
+    );
+  }
+
+  /**
+   * Logs a subscriber leaving a funnel before completing it, along with the abandonment reason.
+   *
+   * @param progress - The subscriber progress through the funnel.
+   * @param reason - Why the funnel got abandoned (timeout, fallback or handover).
+   * @param abandonedAt - When the funnel got abandoned, the expiry of the last step on timeout.
+   *
+   * @returns A promise representing the asynchronous operation of logging the event, resolved when the logging is completed.
+   */
+  private async logFunnelAbandonedEvent(
+    progress: FunnelProgress,
+    reason: FunnelAbandonReason,
+    abandonedAt: Date,
+  ) {
+    const { tags, fields } = await this.getFunnelTagsAndFields(progress);
+    return this.logEvent(
+      Measurement.funnelAbandoned,
+      1,
+      { ...tags, reason },
+      fields,
+      { subscriber: progress.subscriber, timestamp: abandonedAt },
+    );
+  }
+
+  /**
+   * Moves a subscriber forward in the funnels matching a triggered block.
+   *
+   * @param subscriber - The subscriber.
+   * @param channel - The channel name.
+   * @param block - The triggered block.
+   */
+  private async trackFunnels(
+    subscriber: Subscriber,
+    channel: string,
+    block: BlockFull,
+  ) {
+    try {
+      const { funnels, subject_tagname } = await this.getSettings();
+      const classification = await this.getBlockClassificationTags(block);
+      await this.funnelTracker.trackBlock(
+        funnels,
+        subscriber,
+        channel || 'unknown',
+        block,
+        classification[subject_tagname || DEFAULT_DIMENSION],
+      );
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Unable to track funnels', err);
+    }
+  }
+
+  /**
+   * Abandons all the funnels a subscriber is going through.
+   *
+   * @param subscriber - The subscriber.
+   * @param reason - The abandonment reason.
+   */
+  private abandonFunnels(subscriber: Subscriber, reason: FunnelAbandonReason) {
+    if (subscriber) {
+      this.funnelTracker.abandon(subscriber.id, reason).catch((err) => {
+        this.logger.error('InfluxDB Service: Unable to abandon funnels', err);
+      });
+    }
+  }
+
+  /**
+   * Resolves the handover of a subscriber once the conversation is back to a bot block.
+   *
+   * @param subscriber - The subscriber.
+   */
+  private resolveHandover(subscriber: Subscriber) {
+    if (subscriber) {
+      this.handoverTracker.botBlock(subscriber.id).catch((err) => {
+        this.logger.error('InfluxDB Service: Unable to resolve handover', err);
+      });
+    }
+  }
+
+  /**
+   * Builds a query service against the configured organization and bucket.
+   *
+   * @returns The query service.
+   */
+  private async getQueryService() {
+    const { organization, bucket, naming_strategy, measurement_prefix } =
+      await this.getSettings();
+    if (!this.client) {
+      throw new Error('Querying analytics requires InfluxDB 2.x');
+    }
+    return new InfluxdbQueryService(
+      this.client.getQueryApi(organization),
+      bucket,
+      getMeasurementNames(naming_strategy, measurement_prefix),
+    );
+  }
+
+  /**
+   * Counts the messages received and sent per channel over a given time range.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns A promise resolved with the message counts per channel.
+   */
+  public async getMessageCounts(range: QueryRange) {
+    const queryService = await this.getQueryService();
+    return queryService.getMessageCounts(range);
+  }
+
+  /**
+   * Computes the fallback rate (local and global fallbacks over received messages)
+   * per channel over a given time range.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns A promise resolved with the fallback counts and rate per channel.
+   */
+  public async getFallbackRate(range: QueryRange) {
+    const queryService = await this.getQueryService();
+    return queryService.getFallbackRate(range);
+  }
+
+  /**
+   * Counts the block hits grouped by subject or by category over a given time range.
+   *
+   * @param range - The time range to query.
+   * @param groupBy - Whether to group the hits by subject or by category.
+   *
+   * @returns A promise resolved with the hit counts, most triggered first.
+   */
+  public async getBlockHits(range: QueryRange, groupBy: BlockHitsGroup) {
+    const { subject_tagname } = await this.getSettings();
+    const queryService = await this.getQueryService();
+    return queryService.getBlockHits(
+      range,
+      groupBy === 'subject' ? subject_tagname || 'subject' : 'category',
+    );
+  }
+
+  /**
+   * Computes the average delay between the assignment and the opening of an
+   * intervention per channel over a given time range.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns A promise resolved with the average delay (in minutes) per channel.
+   */
+  public async getAverageInterventionDelay(range: QueryRange) {
+    const queryService = await this.getQueryService();
+    return queryService.getAverageInterventionDelay(range);
+  }
+
+  /**
+   * Counts the new and returning users per channel over a given time range.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns A promise resolved with the user counts per channel.
+   */
+  public async getUserCounts(range: QueryRange) {
+    const queryService = await this.getQueryService();
+    return queryService.getUserCounts(range);
+  }
+
+  /**
+   * Erases all the analytics points of a subscriber (right to be forgotten), in the configured
+   * bucket as well as in the buckets points are routed to. Depending on the `erasure_mode` setting,
+   * points are either deleted or written back without the subscriber identity fields.
+   * The subscriber's lines still waiting in the spools are removed as well.
+   * Points are looked up from the start of the bucket retention, or from the subscriber creation
+   * date when given, as no point of the subscriber can be older.
+   *
+   * @param id - The subscriber id (as stored in the `recipient` field).
+   * @param createdAt - The subscriber creation date, if known.
+   *
+   * @returns A promise resolved with a report of the erased points.
+   */
+  public async eraseSubscriber(id: string, createdAt?: Date) {
+    const settings = await this.getSettings();
+    if (!this.client) {
+      throw new Error('Erasing analytics requires InfluxDB 2.x');
+    }
+    // Make sure that no pending point of the subscriber is written afterwards
+    await this.flushSinks();
+
+    const destinations = new Map<string, Required<RoutingDestination>>();
+    [{}, ...this.pointRouter.getDestinations(settings.routing_rules)].forEach(
+      (destination: RoutingDestination) => {
+        const organization = destination.organization || settings.organization;
+        const bucket = destination.bucket || settings.bucket;
+        destinations.set(`${organization}/${bucket}`, { organization, bucket });
+      },
+    );
+
+    const report: ErasureReport = {
+      subscriber: id,
+      mode: settings.erasure_mode,
+      points: 0,
+      measurements: {},
+      spooled: 0,
+    };
+    for (const [key, destination] of destinations) {
+      const eraser = new SubscriberEraser(
+        this.client,
+        destination.organization,
+        destination.bucket,
+        this.logger,
+      );
+      const retentionStart = await this.getRetentionStart(destination);
+      // Kept points are written back to InfluxDB, whatever the sink mode
+      const sink = this.createInfluxdbSink(settings, null, destination);
+      try {
+        const { points, measurements } = await eraser.erase(id, {
+          mode: settings.erasure_mode,
+          since:
+            createdAt && createdAt > retentionStart
+              ? createdAt
+              : retentionStart,
+          backupDirectory: join(
+            settings.spool_directory,
+            ERASURE_BACKUP_DIRECTORY,
+          ),
+          maxRetries: settings.max_retries,
+          write: (lines) => sink.writeLines(lines),
+        });
+        report.points += points;
+        Object.entries(measurements).forEach(([measurement, count]) => {
+          report.measurements[measurement] =
+            (report.measurements[measurement] || 0) + count;
+        });
+      } finally {
+        await sink.close();
+      }
+
+      const isDefault =
+        destination.organization === settings.organization &&
+        destination.bucket === settings.bucket;
+      const spool = isDefault
+        ? this.spool
+        : this.routes.get(key)?.spool || this.createSpool(settings, key);
+      if (spool) {
+        report.spooled += await spool.removeLines((line) =>
+          isSubscriberLine(line, id),
+        );
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Copies the points written with the legacy measurement names into the measurements named
+   * after the configured naming strategy. Legacy measurements are kept, so that dashboards can
+   * be updated one at a time, and the migration can safely be run again.
+   *
+   * @returns A promise resolved with a report of the copied points per measurement.
+   */
+  public async migrateMeasurements(): Promise<MigrationReport[]> {
+    const { organization, bucket, naming_strategy, measurement_prefix } =
+      await this.getSettings();
+    if (!this.client) {
+      throw new Error('Migrating measurements requires InfluxDB 2.x');
+    }
+    const migrator = new MeasurementMigrator(
+      this.client,
+      organization,
+      bucket,
+      this.logger,
+    );
+    return migrator.migrate(
+      Object.values(Measurement).map((name) => ({
+        from: name,
+        to: getMeasurementName(name, naming_strategy, measurement_prefix),
+      })),
+    );
+  }
+
+  /**
+   * Builds the dashboard options from the configured bucket, subject tag and naming strategy.
+   *
+   * @returns The dashboard options.
+   */
+  private async getDashboardOptions(): Promise<DashboardOptions> {
+    const { bucket, subject_tagname, naming_strategy, measurement_prefix } =
+      await this.getSettings();
+    return {
+      bucket,
+      subjectTag: subject_tagname || DEFAULT_DIMENSION,
+      measurements: getMeasurementNames(naming_strategy, measurement_prefix),
+    };
+  }
+
+  /**
+   * Exports the analytics dashboard (message volume, fallback rate, block hits, handovers,
+   * intervention delay, new vs returning users and plugin events), matching the current schema.
+   *
+   * @param format - Whether to export an InfluxDB template or a Grafana dashboard.
+   *
+   * @returns A promise resolved with the dashboard JSON.
+   */
+  public async exportDashboards(format: DashboardFormat = 'influxdb') {
+    const options = await this.getDashboardOptions();
+    return format === 'grafana'
+      ? getGrafanaDashboard(options)
+      : getInfluxdbTemplate(options);
+  }
+
+  /**
+   * Applies the InfluxDB dashboard template to the configured organization. Applying it again
+   * updates the existing dashboard, e.g. after changing the naming strategy.
+   *
+   * @returns A promise resolved once the template is applied.
+   */
+  public async applyDashboards() {
+    const { organization } = await this.getSettings();
+    if (!this.client) {
+      throw new Error('Applying dashboards requires InfluxDB 2.x');
+    }
+    const installer = new DashboardInstaller(
+      this.client,
+      organization,
+      this.logger,
+    );
+    await installer.apply(await this.getDashboardOptions());
+  }
+
+  /**
+   * Flushes the pending points of the default and routed destinations.
+   *
+   * @returns A promise resolved once the pending points are sent, with the lines that could be neither written nor spooled.
+   */
+  private async flushSinks() {
+    const undelivered = await Promise.all(
+      this.getSinks().map((sink) => sink.flush()),
+    );
+    return undelivered.flat();
+  }
+
+  /**
+   * Flushes the points of a backfilled chunk, so that the checkpoint is only saved once they are
+   * written or spooled.
+   *
+   * @param collection - The name of the backfilled collection.
+   */
+  private async flushBackfill(collection: string) {
+    const undelivered = await this.flushSinks();
+    if (undelivered.length) {
+      throw new Error(
+        `Unable to write ${undelivered.length} backfilled point(s) of the ${collection}`,
+      );
+    }
+  }
+
+  /**
+   * Shows the connection status in the helper settings, so that it can be checked from the admin panel.
+   *
+   * @param status - The connection status.
+   */
+  private async showConnectionStatus({
+    status,
+    lastError,
+    lastErrorAt,
+    updatedAt,
+  }: ConnectionStatus) {
+    const value = lastError
+      ? `${status} as of ${updatedAt.toISOString()} (last error at ${lastErrorAt.toISOString()}: ${lastError})`
+      : `${status} as of ${updatedAt.toISOString()}`;
+    try {
+      await this.settingService.updateOne(
+        { group: INFLUXDB_HELPER_NAMESPACE, label: 'connection_status' },
+        { value },
+      );
+    } catch (err) {
+      this.logger.warn(
+        'InfluxDB Service: Unable to show the connection status in the settings',
+        err,
+      );
+    }
+  }
+
+  /**
+   * Returns the start of the retention of a bucket, that is the date of its oldest possible point,
+   * so that queries do not scan the whole bucket.
+   *
+   * @param destination - The organization and bucket.
+   *
+   * @returns A promise resolved with the start of the retention, or the epoch if the bucket keeps its points forever.
+   */
+  private async getRetentionStart({
+    organization,
+    bucket,
+  }: Required<RoutingDestination>) {
+    const { buckets } = await new BucketsAPI(this.client).getBuckets({
+      org: organization,
+      name: bucket,
+    });
+    const retention = buckets?.[0]?.retentionRules?.find(
+      ({ type }) => type === 'expire',
+    );
+    return retention?.everySeconds
+      ? new Date(Date.now() - retention.everySeconds * 1000)
+      : new Date(0);
+  }
+
+  /**
+   * Returns the date of the first point written by the helper, so that the backfill stops where
+   * the live analytics started.
+   *
+   * @returns A promise resolved with the date of the first point, or now if there is none or it cannot be queried.
+   */
+  private async getFirstPointDate() {
+    const { organization, bucket } = await this.getSettings();
+    if (!this.client) {
+      return new Date();
+    }
+    const start = await this.getRetentionStart({ organization, bucket });
+    // Health check points were written by earlier versions, under the raw measurement name
+    const rows = await this.client.getQueryApi(organization).collectRows<{
+      _time: string;
+    }>(
+      flux`from(bucket: ${bucket})
+  |> range(start: ${start})
+  |> filter(fn: (r) => r._field == "value" and r._measurement != ${Measurement.healthCheck} and r._measurement != ${TELEMETRY_MEASUREMENT})
+  |> group()
+  |> first()`,
+    );
+    return rows.length ? new Date(rows[0]._time) : new Date();
+  }
+
+  /**
+   * Logs a historical message, received from or sent by the bot to a subscriber.
+   *
+   * @param message - The stored message.
+   * @param subscriber - The subscriber who sent or received the message.
+   *
+   * @returns A promise resolved once the point is queued for writing.
+   */
+  private async logStoredMessageEvent(
+    message: Message,
+    subscriber: Subscriber,
+  ) {
+    const isReceived = !!message.sender;
+    const tags = {
+      channel: subscriber.channel?.name || 'unknown',
+      type: 'message',
+    };
+    const fields: InfluxFields = {
+      ...(await this.getSubscriberFields(subscriber)),
+      ...(isReceived
+        ? this.getStoredIncomingMessageFields(
+            message.message as StdIncomingMessage,
+          )
+        : this.getOutgoingMessageFields(message.message as StdOutgoingMessage)),
+    };
+    return this.logEvent(
+      isReceived ? Measurement.messageReceived : Measurement.messageSent,
+      1,
+      tags,
+      fields,
+      { subscriber, timestamp: message.createdAt, id: message.id },
+    );
+  }
+
+  /**
+   * Builds the collections of historical records to backfill: messages first, then subscribers
+   * (new users and current handovers).
+   *
+   * @returns The backfill collections.
+   */
+  private getBackfillCollections(): [
+    BackfillCollection<Message>,
+    BackfillCollection<Subscriber>,
+  ] {
+    const messageService = this.moduleRef.get(MessageService, {
+      strict: false,
+    });
+    const subscriberService = this.moduleRef.get(SubscriberService, {
+      strict: false,
+    });
+    const sort: [string, 'asc'] = ['createdAt', 'asc'];
+    const getFilter = (until: Date, after: BackfillCursor | null) =>
+      after
+        ? {
+            createdAt: { $gte: after.createdAt, $lt: until },
+            _id: { $nin: after.ids },
+          }
+        : { createdAt: { $lt: until } };
+
+    return [
+      {
+        name: 'messages',
+        count: (until) => messageService.count({ createdAt: { $lt: until } }),
+        fetch: (until, after, limit) =>
+          messageService.find(getFilter(until, after), { limit, sort }),
+        write: async (messages) => {
+          const ids = [
+            ...new Set(
+              messages.map(({ sender, recipient }) => sender || recipient),
+            ),
+          ].filter((id) => !!id);
+          const subscribers = await subscriberService.find({
+            _id: { $in: ids },
+          });
+          const byId = new Map(subscribers.map((s) => [s.id, s]));
+          for (const message of messages) {
+            const subscriber = byId.get(message.sender || message.recipient);
+            // Messages sent by an agent are not counted as sent by the bot
+            if (subscriber && !message.sentBy) {
+              await this.logStoredMessageEvent(message, subscriber);
+            }
+          }
+          await this.flushBackfill('messages');
+        },
+      },
+      {
+        name: 'subscribers',
+        count: (until) =>
+          subscriberService.count({ createdAt: { $lt: until } }),
+        fetch: (until, after, limit) =>
+          subscriberService.find(getFilter(until, after), { limit, sort }),
+        write: async (subscribers) => {
+          for (const subscriber of subscribers) {
+            await this.logStatEvent(
+              BotStatsType.new_users,
+              'New users',
+              subscriber,
+              undefined,
+              subscriber.createdAt,
+              subscriber.id,
+            );
+            if (subscriber.assignedAt) {
+              await this.logHandoverEvent(
+                subscriber,
+                true,
+                undefined,
+                subscriber.assignedAt,
+                subscriber.id,
+              );
+            }
+          }
+          await this.flushBackfill('subscribers');
+        },
+      },
+    ];
+  }
+
+  /**
+   * Backfills the analytics from Hexabot's historical messages and subscribers: received and sent
+   * messages, new users and current handovers, stamped with their original date. The backfill
+   * runs in chunks and resumes from its last checkpoint, its progress being emitted as
+   * `hook:influxdb:backfill`. It covers the records created before the first point
+   * written by the helper, so that they are not counted twice.
+   *
+   * @param options - Whether to start over, and the end of the backfilled period if it differs from the default one.
+   *
+   * @returns A promise resolved with true once the backfill is complete, false if it stopped before.
+   */
+  public async backfill(options: { restart?: boolean; until?: Date } = {}) {
+    const { backfill_chunk_size, backfill_checkpoint } =
+      await this.getSettings();
+    return this.backfillRunner.run(this.getBackfillCollections(), {
+      ...options,
+      checkpoint: backfill_checkpoint,
+      chunkSize: backfill_chunk_size,
+      getDefaultUntil: () => this.getFirstPointDate(),
+    });
+  }
+
+  @Command({
+    command: 'influxdb:backfill',
+    describe: 'Backfills InfluxDB from the historical messages and subscribers',
+  })
+  async runBackfillCommand(
+    @Option({
+      name: 'restart',
+      describe: 'Start over instead of resuming the previous backfill',
+      type: 'boolean',
+      default: false,
+    })
+    restart: boolean,
+    @Option({
+      name: 'until',
+      describe: 'End of the backfilled period (ISO 8601 date)',
+      type: 'string',
+    })
+    until?: string,
+  ) {
+    const completed = await this.backfill({
+      restart,
+      until: until ? new Date(until) : undefined,
+    });
+    await this.flushSinks();
+    if (!completed) {
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Imports a line protocol file, such as the one written in the file sink mode, into the
+   * configured InfluxDB destination regardless of the sink mode. Lines are expected to carry
+   * nanosecond timestamps and are written in batches. Rotated files can be imported one after
+   * the other, starting with the oldest one.
+   *
+   * @param path - The path of the line protocol file, defaults to the configured one.
+   *
+   * @returns A promise resolved with the number of imported lines.
+   */
+  public async importLineProtocol(path?: string) {
+    const settings = await this.getSettings();
+    const file = path || settings.sink_file;
+    const sink = this.createInfluxdbSink(settings, null);
+    try {
+      const count = await readLineProtocolFile(
+        file,
+        settings.batch_size,
+        (lines) => sink.writeLines(lines, 'ns'),
+      );
+      this.logger.log(
+        `InfluxDB Service: Imported ${count} analytic event(s) from ${file}`,
+      );
+      return count;
+    } finally {
+      await sink.close();
+    }
+  }
+
+  @Command({
+    command: 'influxdb:import',
+    describe: 'Imports a line protocol file into InfluxDB',
+  })
+  async runImportCommand(
+    @Option({
+      name: 'file',
+      describe:
+        'Path of the line protocol file, defaults to the configured one',
+      type: 'string',
+    })
+    file?: string,
+  ) {
+    try {
+      await this.importLineProtocol(file);
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Import failed', err);
+      process.exitCode = 1;
+    }
+  }
+
+  @OnEvent('hook:chatbot:sent')
+  handleMessageSent(sent: OutgoingMessage, event: EventWrapper<any, any>) {
+    if (event) {
+      // Only the first reply to a received message measures the response time
+      const responseTime = this.responseTimer.reply(event.getId());
+      this.logSampled(
+        'message_sent',
+        event.getSender(),
+        (sampleRate, timestamp) =>
+          this.logMessageSentEvent(
+            event,
+            sent,
+            responseTime,
+            sampleRate,
+            timestamp,
+          ),
+      );
+      this.trackSession(event.getSender(), event._handler.getName(), 'sent');
+    } else if (sent && sent.sentBy && sent.recipient) {
+      // Messages sent by an agent from the inbox come without any event
+      this.handoverTracker.agentMessage(sent.recipient);
+    }
+  }
+
+  @OnEvent('hook:chatbot:received')
+  handleMessageReceived(event: EventWrapper<any, any>) {
+    if (event) {
+      this.responseTimer.receive(event.getId());
+      if (event.getNLP()) {
+        this.nlpTracker.receive(event);
+      }
+      this.logSampled(
+        'message_received',
+        event.getSender(),
+        (sampleRate, timestamp) =>
+          this.logMessageReceivedEvent(event, sampleRate, timestamp),
+      );
+      this.trackSession(
+        event.getSender(),
+        event._handler.getName(),
+        'received',
+      );
+    }
+  }
+
+  @OnEvent('hook:analytics:block')
+  handleBlockTrigger(
+    block: BlockFull,
+    event: EventWrapper<any, any>,
+    context: Context,
+  ) {
+    if (event && block && block.name) {
+      this.logSampled('block', event.getSender(), (sampleRate, timestamp) =>
+        this.logBlockEvent(event, block, context, sampleRate, timestamp),
+      );
+      this.trackSession(event.getSender(), event._handler.getName(), 'block');
+      this.trackFunnels(event.getSender(), event._handler.getName(), block);
+      this.resolveHandover(event.getSender());
+      this.resolveNlp(event, 'none');
+    }
+  }
+
+  @OnEvent('hook:analytics:passation')
+  handleHandover(subscriber: Subscriber, isHandover: boolean) {
+    if (subscriber) {
+      this.logSampled('passation', subscriber, (sampleRate, timestamp) =>
+        this.logHandoverEvent(subscriber, isHandover, sampleRate, timestamp),
+      );
+      if (isHandover) {
+        this.trackSession(subscriber, subscriber.channel?.name, 'handover');
+        this.abandonFunnels(subscriber, 'handover');
+        this.handoverTracker.handover(
+          subscriber,
+          subscriber.channel?.name || 'unknown',
+        );
+      } else {
+        this.handoverTracker.handback(subscriber.id);
+      }
+    }
+  }
 
   @OnEvent('hook:analytics:fallback-global')
   handleGlobalFallback(event) {
     if (event) {
-      this.logFallbackEvent(event);
+      this.logSampled('fallback', event.getSender(), (sampleRate, timestamp) =>
+        this.logFallbackEvent(
+          event,
+          undefined,
+          undefined,
+          sampleRate,
+          timestamp,
+        ),
+      );
+      this.resolveNlp(event, 'global');
+      this.trackSession(
+        event.getSender(),
+        event._handler.getName(),
+        'fallback',
+      );
+      this.abandonFunnels(event.getSender(), 'fallback');
     }
   }
 
@@ -633,30 +2826,101 @@ export default class InfluxdbHelper
     context: Context,
   ) {
     if (event) {
-      this.logFallbackEvent(event, block, context);
+      this.logSampled('fallback', event.getSender(), (sampleRate, timestamp) =>
+        this.logFallbackEvent(event, block, context, sampleRate, timestamp),
+      );
+      this.resolveNlp(event, 'local');
+      this.trackSession(
+        event.getSender(),
+        event._handler.getName(),
+        'fallback',
+      );
+      this.abandonFunnels(event.getSender(), 'fallback');
     }
   }
 
   @OnEvent('hook:analytics:intervention')
   handleNewIntervention(subscriber: Subscriber) {
     if (subscriber) {
-      this.logInterventionEvent(subscriber);
+      this.logSampled('intervention', subscriber, (sampleRate, timestamp) =>
+        this.logInterventionEvent(subscriber, sampleRate, timestamp),
+      );
+      this.handoverTracker.open(subscriber.id);
+    }
+  }
+
+  @OnEvent('hook:influxdb:track')
+  async handleTrack(event: TrackEvent) {
+    try {
+      await this.track(event);
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Unable to track event', err);
     }
   }
 
+  /**
+   * Queues the erasure of the analytics of a subscriber, erasures running in the background
+   * one after the other.
+   *
+   * @param id - The subscriber id.
+   * @param createdAt - The subscriber creation date, if known.
+   *
+   * @returns A promise resolved once the erasure is done, or failed.
+   */
+  private queueErasure(id: string, createdAt?: Date) {
+    this.erasures = this.erasures.then(async () => {
+      try {
+        await this.eraseSubscriber(id, createdAt);
+      } catch (err) {
+        this.logger.error(
+          `InfluxDB Service: Unable to erase subscriber ${id} analytics`,
+          err,
+        );
+      }
+    });
+    return this.erasures;
+  }
+
+  @OnEvent('hook:subscriber:preDelete')
+  async handleSubscriberDelete(
+    _query: unknown,
+    criteria: { _id?: string | { $in?: string[] } },
+  ) {
+    const { _id } = criteria || {};
+    const ids = (
+      _id && typeof _id === 'object'
+        ? (_id.$in ?? [])
+        : [_id].filter((id) => !!id)
+    ).map((id) => String(id));
+    if (!ids.length) {
+      return;
+    }
+    // Read before the subscribers get deleted, their creation date bounds the lookup of their points
+    const createdAt = new Map<string, Date>();
+    try {
+      const subscriberService = this.moduleRef.get(SubscriberService, {
+        strict: false,
+      });
+      const subscribers = await subscriberService.find({ _id: { $in: ids } });
+      subscribers.forEach(({ id, createdAt: date }) => createdAt.set(id, date));
+    } catch (err) {
+      this.logger.warn(
+        'InfluxDB Service: Unable to read the creation date of the deleted subscribers',
+        err,
+      );
+    }
+    // Not awaited so that deleting subscribers does not wait for their analytics to be erased
+    ids.forEach((id) => this.queueErasure(id, createdAt.get(id)));
+  }
+
   @OnEvent('hook:stats:entry')
-  handleStatEntry(type: BotStatsType, name: string, subscriber: Subscriber) {
-    switch (type) {
-      case BotStatsType.new_users:
-      case BotStatsType.returning_users:
-        if (subscriber) {
-          // Not all of the 'hook:stats:entry' events do not pass the subscriber in args (yet)
-          this.logStatEvent(type, name, subscriber);
-        }
-        break;
-      default:
-        // Do nothing
-        break;
+  handleStatEntry(type: BotStatsType, name: string, subscriber?: Subscriber) {
+    if (!(Object.values(BotStatsType) as string[]).includes(type)) {
+      return;
     }
+    // Not all of the 'hook:stats:entry' events pass the subscriber in args
+    this.logSampled('stats', subscriber, (sampleRate, timestamp) =>
+      this.logStatEvent(type, name, subscriber, sampleRate, timestamp),
+    );
   }
 }
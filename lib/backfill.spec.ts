@@ -0,0 +1,121 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BackfillCollection, BackfillCursor, BackfillRunner } from './backfill';
+import { createLoggerMock } from './test/mocks';
+
+type TestRecord = { id: string; createdAt: Date };
+
+describe('BackfillRunner', () => {
+  const logger = createLoggerMock();
+  const until = new Date('2024-06-01T00:00:00Z');
+  let directory: string;
+
+  // Records sorted by creation date only, the order of those sharing a date being unspecified
+  const createCollection = (
+    records: TestRecord[],
+  ): BackfillCollection<TestRecord> & { written: string[] } => {
+    const written: string[] = [];
+    return {
+      name: 'records',
+      written,
+      count: async () => records.length,
+      fetch: async (_until, after: BackfillCursor | null, limit) =>
+        records
+          .filter(
+            ({ id, createdAt }) =>
+              !after ||
+              (createdAt >= after.createdAt && !after.ids.includes(id)),
+          )
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .slice(0, limit),
+      write: async (chunk) => {
+        written.push(...chunk.map(({ id }) => id));
+      },
+    };
+  };
+
+  const run = (
+    runner: BackfillRunner,
+    collection: BackfillCollection<TestRecord>,
+  ) =>
+    runner.run([collection], {
+      checkpoint: join(directory, 'checkpoint.json'),
+      chunkSize: 2,
+      until,
+      getDefaultUntil: async () => until,
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    directory = await mkdtemp(join(tmpdir(), 'influxdb-backfill-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should page through the records sharing a creation date', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const collection = createCollection(
+      ['a', 'b', 'c', 'd', 'e'].map((id) => ({ id, createdAt })),
+    );
+
+    expect(await run(new BackfillRunner(logger, jest.fn()), collection)).toBe(
+      true,
+    );
+    expect(collection.written.sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('should resume after the last chunk when records were deleted', async () => {
+    const records = ['a', 'b', 'c', 'd'].map((id, index) => ({
+      id,
+      createdAt: new Date(Date.UTC(2024, 0, index + 1)),
+    }));
+    const collection = createCollection(records);
+    const runner = new BackfillRunner(logger, () => runner.stop());
+
+    expect(await run(runner, collection)).toBe(false);
+    expect(collection.written).toEqual(['a', 'b']);
+
+    records.shift();
+    const resumed = createCollection(records);
+    expect(await run(new BackfillRunner(logger, jest.fn()), resumed)).toBe(
+      true,
+    );
+    expect(resumed.written).toEqual(['c', 'd']);
+  });
+
+  it('should not move past a chunk that failed to be written', async () => {
+    const records = ['a', 'b', 'c'].map((id, index) => ({
+      id,
+      createdAt: new Date(Date.UTC(2024, 0, index + 1)),
+    }));
+    const failing = createCollection(records);
+    failing.write = jest
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(
+        new Error('Unable to write 1 backfilled point(s)'),
+      );
+
+    expect(await run(new BackfillRunner(logger, jest.fn()), failing)).toBe(
+      false,
+    );
+
+    const resumed = createCollection(records);
+    expect(await run(new BackfillRunner(logger, jest.fn()), resumed)).toBe(
+      true,
+    );
+    expect(resumed.written).toEqual(['c']);
+  });
+});
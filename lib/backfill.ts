@@ -0,0 +1,250 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { BackfillProgress } from '../types';
+
+type BackfillRecord = { id: string; createdAt: Date };
+
+/**
+ * Position of the last chunk in a collection: records are fetched by creation date, those sharing
+ * the date of the last record being told apart by their id, so that inserted or deleted records
+ * do not shift the next chunks (as skipping an offset would).
+ */
+export type BackfillCursor = {
+  createdAt: Date;
+  // Ids of the records created at that date which are already processed
+  ids: string[];
+};
+
+/**
+ * A collection of historical records (messages, subscribers, ...) to backfill.
+ */
+export type BackfillCollection<T extends BackfillRecord> = {
+  name: string;
+  // Counts the records created before the given date
+  count: (until: Date) => Promise<number>;
+  // Fetches a chunk of the records created before the given date and from the cursor on (minus
+  // the ids of the cursor), oldest first
+  fetch: (
+    until: Date,
+    after: BackfillCursor | null,
+    limit: number,
+  ) => Promise<T[]>;
+  // Writes the points of a chunk, resolved once they are written (or spooled), rejected otherwise
+  write: (records: T[]) => Promise<void>;
+};
+
+export type BackfillOptions = {
+  // Path of the checkpoint file
+  checkpoint: string;
+  chunkSize: number;
+  // Starts over, keeping the backfilled period unless another one is given
+  restart?: boolean;
+  // End of the backfilled period, only used when starting
+  until?: Date;
+  // Resolves the end of the backfilled period when none is given
+  getDefaultUntil: () => Promise<Date>;
+};
+
+type BackfillCheckpoint = {
+  // End of the backfilled period, records created afterwards are left to the live analytics
+  until: string;
+  // Number of records processed by collection
+  offsets: { [collection: string]: number };
+  // Position of the last chunk by collection
+  cursors: { [collection: string]: { createdAt: string; ids: string[] } };
+  done: boolean;
+};
+
+/**
+ * Moves the cursor past a chunk of records.
+ *
+ * @param cursor - The cursor of the previous chunk, if any.
+ * @param records - The records of the chunk, oldest first.
+ *
+ * @returns The cursor of the chunk.
+ */
+const getNextCursor = (
+  cursor: BackfillCursor | null,
+  records: BackfillRecord[],
+): BackfillCursor => {
+  const createdAt = records[records.length - 1].createdAt;
+  const ids = records
+    .filter((record) => record.createdAt.getTime() === createdAt.getTime())
+    .map(({ id }) => id);
+  return {
+    createdAt,
+    ids:
+      cursor?.createdAt.getTime() === createdAt.getTime()
+        ? [...cursor.ids, ...ids]
+        : ids,
+  };
+};
+
+/**
+ * Writes the points of historical records in chunks. A checkpoint is saved on disk after each
+ * chunk written, so that an interrupted (or failed) backfill resumes where it stopped. Points keep
+ * the date of their record, hence writing a chunk again overwrites the same points and re-runs
+ * are idempotent.
+ */
+export class BackfillRunner {
+  private running = false;
+
+  private stopping = false;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly onProgress: (progress: BackfillProgress) => void,
+  ) {}
+
+  /**
+   * Reads the checkpoint of the previous run.
+   *
+   * @param path - The path of the checkpoint file.
+   *
+   * @returns The checkpoint, or null if the backfill never ran.
+   */
+  private async readCheckpoint(
+    path: string,
+  ): Promise<BackfillCheckpoint | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Saves the checkpoint of the current run.
+   *
+   * @param path - The path of the checkpoint file.
+   * @param checkpoint - The checkpoint.
+   */
+  private async saveCheckpoint(path: string, checkpoint: BackfillCheckpoint) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(checkpoint));
+  }
+
+  /**
+   * Asks the running backfill, if any, to stop after the current chunk.
+   */
+  stop() {
+    this.stopping = this.running;
+  }
+
+  /**
+   * Backfills the collections one after the other, resuming from the last checkpoint.
+   * Errors are logged, the backfill can then be resumed.
+   *
+   * @param collections - The collections to backfill.
+   * @param options - The backfill options.
+   *
+   * @returns A promise resolved with true once the backfill is complete, false if it stopped before.
+   */
+  async run(collections: BackfillCollection<any>[], options: BackfillOptions) {
+    if (this.running) {
+      this.logger.warn('InfluxDB Service: Backfill already in progress');
+      return false;
+    }
+
+    this.running = true;
+    this.stopping = false;
+    try {
+      const previous = await this.readCheckpoint(options.checkpoint);
+      if (previous?.done && !options.restart) {
+        this.logger.log('InfluxDB Service: Backfill already completed');
+        return true;
+      }
+
+      const checkpoint: BackfillCheckpoint =
+        previous && !options.restart
+          ? previous
+          : {
+              until: (
+                options.until ||
+                (previous ? new Date(previous.until) : null) ||
+                (await options.getDefaultUntil())
+              ).toISOString(),
+              offsets: {},
+              cursors: {},
+              done: false,
+            };
+      const until = new Date(checkpoint.until);
+      this.logger.log(
+        `InfluxDB Service: Backfilling records created before ${checkpoint.until}`,
+      );
+
+      for (const collection of collections) {
+        const total = await collection.count(until);
+        const saved = checkpoint.cursors?.[collection.name];
+        let cursor: BackfillCursor | null = saved
+          ? { createdAt: new Date(saved.createdAt), ids: saved.ids }
+          : null;
+        let processed = cursor ? checkpoint.offsets[collection.name] || 0 : 0;
+        while (true) {
+          if (this.stopping) {
+            this.logger.log(
+              `InfluxDB Service: Backfill stopped at ${processed}/${total} ${collection.name}`,
+            );
+            return false;
+          }
+
+          const records = await collection.fetch(
+            until,
+            cursor,
+            options.chunkSize,
+          );
+          if (!records.length) {
+            break;
+          }
+          await collection.write(records);
+          cursor = getNextCursor(cursor, records);
+          processed += records.length;
+          checkpoint.offsets[collection.name] = processed;
+          checkpoint.cursors = {
+            ...checkpoint.cursors,
+            [collection.name]: {
+              createdAt: cursor.createdAt.toISOString(),
+              ids: cursor.ids,
+            },
+          };
+          await this.saveCheckpoint(options.checkpoint, checkpoint);
+
+          this.logger.log(
+            `InfluxDB Service: Backfilled ${processed}/${total} ${collection.name}`,
+          );
+          this.onProgress({
+            collection: collection.name,
+            processed,
+            total,
+            done: false,
+          });
+        }
+      }
+
+      checkpoint.done = true;
+      await this.saveCheckpoint(options.checkpoint, checkpoint);
+      this.logger.log('InfluxDB Service: Backfill completed');
+      this.onProgress({ collection: null, processed: 0, total: 0, done: true });
+      return true;
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Backfill failed', err);
+      return false;
+    } finally {
+      this.running = false;
+    }
+  }
+}
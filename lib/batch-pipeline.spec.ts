@@ -0,0 +1,126 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { HttpError, Point } from '@influxdata/influxdb-client';
+
+import { BatchPipeline } from './batch-pipeline';
+import { BatchOptions } from './sink';
+import { createLoggerMock } from './test/mocks';
+
+class TestPipeline extends BatchPipeline {
+  readonly writeBatch = jest.fn<Promise<void>, [string[]]>();
+
+  async ping() {}
+
+  async checkAccess() {}
+
+  writeLines(lines: string[]) {
+    return this.writeBatch(lines);
+  }
+}
+
+describe('BatchPipeline', () => {
+  const logger = createLoggerMock();
+  let options: BatchOptions;
+
+  const createPoint = (value: number) =>
+    new Point('message_received').floatField('value', value).timestamp('1');
+
+  beforeEach(() => {
+    options = {
+      batchSize: 10,
+      flushInterval: 0,
+      maxRetries: 3,
+      retryJitter: 0,
+      precision: 'ns',
+      onFailed: jest.fn().mockResolvedValue(undefined),
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+    };
+  });
+
+  it('should send the buffered points on flush', async () => {
+    const pipeline = new TestPipeline(options, logger);
+    pipeline.writeBatch.mockResolvedValue();
+    pipeline.write(createPoint(1));
+    pipeline.write(createPoint(2));
+    expect(pipeline.getQueueDepth()).toBe(2);
+
+    expect(await pipeline.flush()).toEqual([]);
+
+    const lines = ['message_received value=1 1', 'message_received value=2 1'];
+    expect(pipeline.writeBatch).toHaveBeenCalledWith(lines);
+    expect(options.onSuccess).toHaveBeenCalledWith(lines);
+    expect(pipeline.getQueueDepth()).toBe(0);
+  });
+
+  it('should spool the batch once the retries are exhausted', async () => {
+    const pipeline = new TestPipeline({ ...options, maxRetries: 0 }, logger);
+    pipeline.writeBatch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    pipeline.write(createPoint(1));
+
+    expect(await pipeline.flush()).toEqual([]);
+
+    expect(pipeline.writeBatch).toHaveBeenCalledTimes(1);
+    expect(options.onFailed).toHaveBeenCalledWith([
+      'message_received value=1 1',
+    ]);
+    expect(pipeline.getQueueDepth()).toBe(0);
+  });
+
+  it('should spool the batches being retried when closed', async () => {
+    const pipeline = new TestPipeline(options, logger);
+    pipeline.writeBatch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    pipeline.write(createPoint(1));
+    const flushed = pipeline.flush();
+    // Let the first attempt fail, the batch then waits for its next retry
+    await new Promise((resolve) => setImmediate(resolve));
+    pipeline.write(createPoint(2));
+
+    await pipeline.close();
+    await flushed;
+
+    expect(options.onFailed).toHaveBeenCalledWith([
+      'message_received value=1 1',
+    ]);
+    expect(options.onFailed).toHaveBeenCalledWith([
+      'message_received value=2 1',
+    ]);
+    expect(pipeline.getQueueDepth()).toBe(0);
+  });
+
+  it('should not spool the batches rejected by the server', async () => {
+    const pipeline = new TestPipeline(options, logger);
+    const error = new HttpError(400, 'Bad Request');
+    pipeline.writeBatch.mockRejectedValue(error);
+    pipeline.write(createPoint(1));
+
+    await pipeline.close();
+
+    expect(pipeline.writeBatch).toHaveBeenCalledTimes(1);
+    expect(options.onError).toHaveBeenCalledWith(error, [
+      'message_received value=1 1',
+    ]);
+    expect(options.onFailed).not.toHaveBeenCalled();
+  });
+
+  it('should report the lines neither written nor spooled on flush', async () => {
+    const pipeline = new TestPipeline(
+      { ...options, maxRetries: 0, onFailed: undefined },
+      logger,
+    );
+    pipeline.writeBatch
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockRejectedValueOnce(new HttpError(400, 'Bad Request'));
+    pipeline.write(createPoint(1));
+    expect(await pipeline.flush()).toEqual(['message_received value=1 1']);
+
+    pipeline.write(createPoint(2));
+    expect(await pipeline.flush()).toEqual(['message_received value=2 1']);
+  });
+});
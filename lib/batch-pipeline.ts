@@ -0,0 +1,188 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  getRetryDelay,
+  Point,
+  WritePrecisionType,
+} from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import {
+  BatchOptions,
+  BatchTuning,
+  getTimeConverter,
+  isRetriable,
+  Sink,
+} from './sink';
+
+/**
+ * Buffers the points and sends them in batches, whenever the batch is full or the flush interval
+ * elapses. Failed batches are retried (with jitter) as long as the error is retriable, and handed
+ * over to the `onFailed` callback once the retries are exhausted. Closing the pipeline stops
+ * the retries: the batches still failing are handed over right away rather than dropped.
+ * Subclasses only implement the actual write of the lines towards their backend.
+ */
+export abstract class BatchPipeline<
+  T extends BatchOptions = BatchOptions,
+> implements Sink {
+  private lines: string[] = [];
+
+  // Number of lines of the batches being sent (or retried)
+  private sendingLines = 0;
+
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  // Batches being sent (or retried)
+  private readonly sending = new Set<Promise<string[]>>();
+
+  // Wake up the batches waiting for their next retry
+  private readonly retryWaits = new Set<() => void>();
+
+  private closed = false;
+
+  constructor(
+    protected readonly options: T,
+    protected readonly logger: LoggerService,
+  ) {}
+
+  abstract ping(): Promise<void>;
+
+  abstract checkAccess(): Promise<void>;
+
+  abstract writeLines(
+    lines: string[],
+    precision?: WritePrecisionType,
+  ): Promise<void>;
+
+  write(point: Point) {
+    const line = point.toLineProtocol({
+      convertTime: getTimeConverter(this.options.precision),
+    });
+    if (!line) {
+      return;
+    }
+
+    this.lines.push(line);
+    if (this.lines.length >= this.options.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer && this.options.flushInterval > 0) {
+      this.flushTimer = setTimeout(
+        () => this.flush(),
+        this.options.flushInterval,
+      );
+    }
+  }
+
+  /**
+   * Waits before retrying a batch, unless the pipeline gets closed in the meantime.
+   *
+   * @param delay - The delay (in ms) before the next retry.
+   *
+   * @returns A promise resolved once the delay elapsed or the pipeline is closed.
+   */
+  private waitForRetry(delay: number) {
+    return new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.retryWaits.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, delay);
+      this.retryWaits.add(wake);
+    });
+  }
+
+  /**
+   * Sends a batch, retrying it as long as the error is retriable, the retries are not exhausted
+   * and the pipeline is not closed.
+   *
+   * @param lines - The line protocol lines of the batch.
+   *
+   * @returns A promise resolved with the lines that could be neither written nor spooled.
+   */
+  private async send(lines: string[]) {
+    for (let attempt = 1; ; attempt++) {
+      const { maxRetries, retryJitter, onFailed, onSuccess, onError } =
+        this.options;
+      try {
+        await this.writeLines(lines, this.options.precision);
+        this.logger.debug(
+          `InfluxDB Service: Successfully logged ${lines.length} analytic event(s)`,
+        );
+        onSuccess?.(lines);
+        return [];
+      } catch (err) {
+        if (!isRetriable(err)) {
+          this.logger.error(
+            `InfluxDB Service: Error sending ${lines.length} analytic event(s)`,
+            err,
+          );
+          onError?.(err, lines);
+          return lines;
+        }
+        if (attempt > maxRetries || this.closed) {
+          this.logger.error(
+            `InfluxDB Service: Unable to reach InfluxDB for ${lines.length} analytic event(s)`,
+            err,
+          );
+          onError?.(err, lines);
+          if (!onFailed) {
+            return lines;
+          }
+          await onFailed(lines);
+          return [];
+        }
+        await this.waitForRetry(getRetryDelay(err, retryJitter));
+      }
+    }
+  }
+
+  getQueueDepth() {
+    return this.lines.length + this.sendingLines;
+  }
+
+  configure(tuning: Partial<BatchTuning>) {
+    Object.assign(this.options, tuning);
+  }
+
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const lines = this.lines;
+    this.lines = [];
+    if (lines.length > 0) {
+      this.sendingLines += lines.length;
+      const sending = this.send(lines)
+        .catch((err) => {
+          this.logger.error(
+            `InfluxDB Service: Unable to spool ${lines.length} analytic event(s)`,
+            err,
+          );
+          return lines;
+        })
+        .finally(() => {
+          this.sendingLines -= lines.length;
+          this.sending.delete(sending);
+        });
+      this.sending.add(sending);
+    }
+    const undelivered = await Promise.all(this.sending);
+    return undelivered.flat();
+  }
+
+  async close() {
+    this.closed = true;
+    this.retryWaits.forEach((wake) => wake());
+    await this.flush();
+  }
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { Block, BlockFull } from '@/chat/schemas/block.schema';
+
+import { BlockClassifier } from './block-classifier';
+import { createLoggerMock } from './test/mocks';
+
+describe('BlockClassifier', () => {
+  const block = {
+    id: 'block-1',
+    name: 'Order pizza',
+    category: { id: 'category-1', label: 'Sales' },
+    options: { fallback: { active: true, max_attempts: 2 } },
+  } as unknown as BlockFull;
+  let classifier: BlockClassifier;
+
+  beforeEach(() => {
+    classifier = new BlockClassifier(createLoggerMock());
+  });
+
+  const classify = (rules: object[], target: BlockFull | Block = block) =>
+    classifier.classify(target, JSON.stringify(rules));
+
+  it('should match the category, id, name and name regex', () => {
+    expect(
+      classify([{ match: { category: 'Sales' }, value: 'sales' }]),
+    ).toEqual({ subject: 'sales' });
+    expect(
+      classify([{ match: { category: 'category-1' }, value: 'sales' }]),
+    ).toEqual({ subject: 'sales' });
+    expect(classify([{ match: { block_id: 'block-1' }, value: 'a' }])).toEqual({
+      subject: 'a',
+    });
+    expect(classify([{ match: { name: 'Order' }, value: 'a' }])).toEqual({});
+    expect(classify([{ match: { regex: '^order' }, value: 'order' }])).toEqual({
+      subject: 'order',
+    });
+  });
+
+  it('should match the category id of blocks that are not populated', () => {
+    const unpopulated = {
+      ...block,
+      category: 'category-1',
+    } as unknown as Block;
+    expect(
+      classify(
+        [{ match: { category: 'category-1' }, value: 'sales' }],
+        unpopulated,
+      ),
+    ).toEqual({ subject: 'sales' });
+  });
+
+  it('should match the block options by path, truthy or equal to a value', () => {
+    expect(
+      classify([{ match: { option: { key: 'fallback.active' } }, value: 'a' }]),
+    ).toEqual({ subject: 'a' });
+    expect(
+      classify([
+        {
+          match: { option: { key: 'fallback.max_attempts', value: 3 } },
+          value: 'a',
+        },
+      ]),
+    ).toEqual({});
+    expect(
+      classify([{ match: { option: { key: 'assign_labels' } }, value: 'a' }]),
+    ).toEqual({});
+  });
+
+  it('should keep the first matching rule of each dimension, by priority', () => {
+    expect(
+      classify([
+        { match: { regex: 'pizza' }, value: 'food' },
+        { match: { category: 'Sales' }, value: 'sales', priority: 1 },
+        {
+          dimension: 'journey',
+          match: { name: 'Order pizza' },
+          value: 'order',
+        },
+      ]),
+    ).toEqual({ subject: 'sales', journey: 'order' });
+  });
+
+  it('should ignore the invalid rules and regular expressions', () => {
+    expect(
+      classify([
+        { match: { regex: '(' }, value: 'broken' },
+        { value: 'no match' },
+        { match: { name: 'Order pizza' } },
+        { match: { name: 'Order pizza' }, value: 'order' },
+      ]),
+    ).toEqual({ subject: 'order' });
+    expect(classifier.classify(block, '{not json')).toEqual({});
+  });
+});
@@ -0,0 +1,152 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Block, BlockFull } from '@/chat/schemas/block.schema';
+import { LoggerService } from '@/logger/logger.service';
+
+import { ClassificationRule } from '../types';
+
+import { JsonSetting } from './json-setting';
+
+// Dimension used by rules that do not specify one
+export const DEFAULT_DIMENSION = 'subject';
+
+/**
+ * Resolves a dotted path (e.g. `fallback.active`) within an object.
+ *
+ * @param obj - The object to look into.
+ * @param path - The dotted path.
+ *
+ * @returns The value found at the given path, undefined otherwise.
+ */
+const getPath = (obj: any, path: string) =>
+  path
+    .split('.')
+    .reduce(
+      (acc, key) => (acc !== null && acc !== undefined ? acc[key] : acc),
+      obj,
+    );
+
+/**
+ * Classifies blocks along one or several dimensions (subject, journey, ...) based on
+ * ordered rules matching the block category (label or id), id, exact name, name regex or options.
+ * For each dimension, rules are evaluated by descending priority (then in declaration order)
+ * and the first matching rule wins.
+ */
+export class BlockClassifier {
+  private readonly rules: JsonSetting<ClassificationRule[]>;
+
+  constructor(private readonly logger: LoggerService) {
+    this.rules = new JsonSetting('subject_rules', [], logger, (rules) =>
+      this.normalize(rules),
+    );
+  }
+
+  /**
+   * Validates the parsed rules and sorts them by descending priority. Invalid rules are ignored.
+   *
+   * @param rules - The parsed JSON rules.
+   *
+   * @returns The valid rules sorted by descending priority.
+   */
+  private normalize(rules: any): ClassificationRule[] {
+    if (!Array.isArray(rules)) {
+      throw new Error('Classification rules should be an array');
+    }
+    return rules
+      .filter((rule: ClassificationRule) => {
+        const isValid = rule && typeof rule.value === 'string' && !!rule.match;
+        if (!isValid) {
+          this.logger.warn(
+            'InfluxDB Service: Ignoring invalid classification rule',
+            rule,
+          );
+        }
+        return isValid;
+      })
+      .map((rule: ClassificationRule, index: number) => ({ rule, index }))
+      .sort(
+        (a, b) =>
+          (b.rule.priority || 0) - (a.rule.priority || 0) || a.index - b.index,
+      )
+      .map(({ rule }) => rule);
+  }
+
+  /**
+   * Checks whether a block matches all the criteria of a rule.
+   *
+   * @param block - The block to classify.
+   * @param rule - The classification rule.
+   *
+   * @returns True if the block matches the rule.
+   */
+  private matches(
+    block: BlockFull | Block,
+    { match }: ClassificationRule,
+  ): boolean {
+    // Populated blocks carry the category object, others only its id
+    const categories =
+      typeof block.category === 'object' && block.category
+        ? [block.category.label, block.category.id]
+        : [block.category];
+
+    if (match.category !== undefined && !categories.includes(match.category)) {
+      return false;
+    }
+    if (match.block_id !== undefined && match.block_id !== block.id) {
+      return false;
+    }
+    if (match.name !== undefined && match.name !== block.name) {
+      return false;
+    }
+    if (match.regex !== undefined) {
+      try {
+        if (!new RegExp(match.regex, 'i').test(block.name)) {
+          return false;
+        }
+      } catch (err) {
+        this.logger.warn(
+          `InfluxDB Service: Invalid classification regex ${match.regex}`,
+        );
+        return false;
+      }
+    }
+    if (match.option !== undefined) {
+      const value = getPath(block.options, match.option.key);
+      if (
+        match.option.value === undefined
+          ? !value
+          : JSON.stringify(value) !== JSON.stringify(match.option.value)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Classifies a block along all the dimensions declared by the rules.
+   *
+   * @param block - The block to classify.
+   * @param raw - The JSON array of rules, as stored in the settings.
+   *
+   * @returns A map of dimension to value, dimensions without any matching rule are left out.
+   */
+  classify(block: BlockFull | Block, raw: string) {
+    return this.rules.parse(raw).reduce(
+      (acc, rule) => {
+        const dimension = rule.dimension || DEFAULT_DIMENSION;
+        if (!(dimension in acc) && this.matches(block, rule)) {
+          acc[dimension] = rule.value;
+        }
+        return acc;
+      },
+      {} as { [dimension: string]: string },
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { CardinalityGuard, OTHER_TAG_VALUE } from './cardinality-guard';
+import { createLoggerMock } from './test/mocks';
+
+describe('CardinalityGuard', () => {
+  const options = { allowlist: [], denylist: ['email'], maxValues: 2 };
+  let guard: CardinalityGuard;
+
+  beforeEach(() => {
+    guard = new CardinalityGuard(createLoggerMock());
+  });
+
+  it('should only tag the allowed entities', () => {
+    expect(guard.isAllowed('city', options)).toBe(true);
+    expect(guard.isAllowed('email', options)).toBe(false);
+    expect(
+      guard.isAllowed('city', { ...options, allowlist: ['product'] }),
+    ).toBe(false);
+    expect(
+      guard.isAllowed('product', { ...options, allowlist: ['product'] }),
+    ).toBe(true);
+  });
+
+  it('should cap the distinct values of a tag', () => {
+    expect(guard.limit('city', 'paris', options)).toBe('paris');
+    expect(guard.limit('city', 'tunis', options)).toBe('tunis');
+    expect(guard.limit('city', 'rome', options)).toBe(OTHER_TAG_VALUE);
+    // Known values are still tagged as is
+    expect(guard.limit('city', 'paris', options)).toBe('paris');
+    // Each tag has its own values
+    expect(guard.limit('product', 'rome', options)).toBe('rome');
+  });
+
+  it('should not cap the values without a max', () => {
+    const values = ['a', 'b', 'c', 'd'].map((value) =>
+      guard.limit('city', value, { ...options, maxValues: 0 }),
+    );
+    expect(values).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
@@ -0,0 +1,76 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { LoggerService } from '@/logger/logger.service';
+
+// Tag value used once a tag has reached its max number of distinct values
+export const OTHER_TAG_VALUE = 'other';
+
+export type CardinalityGuardOptions = {
+  // Entities to tag, all entities are allowed when empty
+  allowlist: string[];
+  // Entities never to tag
+  denylist: string[];
+  // Max number of distinct values per tag
+  maxValues: number;
+};
+
+/**
+ * Keeps the series cardinality under control by deciding which NLP entities can be
+ * used as tags and by capping the number of distinct values each tag can take.
+ * Distinct values are tracked in memory, beyond the limit values fall in the `other` bucket.
+ */
+export class CardinalityGuard {
+  private readonly values = new Map<string, Set<string>>();
+
+  private readonly warned = new Set<string>();
+
+  constructor(private readonly logger: LoggerService) {}
+
+  /**
+   * Checks whether an entity is allowed to be used as a tag.
+   *
+   * @param entity - The NLP entity name.
+   * @param options - The cardinality guard options.
+   *
+   * @returns True if the entity can be a tag, false if it should be demoted to a field.
+   */
+  isAllowed(entity: string, { allowlist, denylist }: CardinalityGuardOptions) {
+    if (denylist.includes(entity)) {
+      return false;
+    }
+    return allowlist.length === 0 || allowlist.includes(entity);
+  }
+
+  /**
+   * Returns the value to use for a tag, tracking its distinct values.
+   *
+   * @param tag - The tag name.
+   * @param value - The tag value.
+   * @param options - The cardinality guard options.
+   *
+   * @returns The value itself, or `other` when the tag has reached its max number of distinct values.
+   */
+  limit(tag: string, value: string, { maxValues }: CardinalityGuardOptions) {
+    const values = this.values.get(tag) || new Set<string>();
+    this.values.set(tag, values);
+
+    if (values.has(value) || !maxValues || values.size < maxValues) {
+      values.add(value);
+      return value;
+    }
+
+    if (!this.warned.has(tag)) {
+      this.warned.add(tag);
+      this.logger.warn(
+        `InfluxDB Service: Tag "${tag}" reached ${maxValues} distinct values, new values are tagged as "${OTHER_TAG_VALUE}"`,
+      );
+    }
+    return OTHER_TAG_VALUE;
+  }
+}
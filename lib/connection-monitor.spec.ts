@@ -0,0 +1,74 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { HttpError } from '@influxdata/influxdb-client';
+
+import { ConnectionStatus } from '../types';
+
+import { ConnectionMonitor } from './connection-monitor';
+import { Sink } from './sink';
+import { createLoggerMock } from './test/mocks';
+
+describe('ConnectionMonitor', () => {
+  const logger = createLoggerMock();
+  let changes: ConnectionStatus[];
+  let monitor: ConnectionMonitor;
+  let sink: Sink;
+
+  beforeEach(() => {
+    changes = [];
+    monitor = new ConnectionMonitor((status) => changes.push(status), logger);
+    sink = {
+      ping: jest.fn().mockResolvedValue(undefined),
+      checkAccess: jest.fn().mockResolvedValue(undefined),
+      writeLines: jest.fn().mockResolvedValue(undefined),
+    } as unknown as Sink;
+  });
+
+  it('should check the connection without writing any point', async () => {
+    const status = await monitor.check(sink);
+    expect(status.status).toBe('ok');
+    expect(sink.ping).toHaveBeenCalled();
+    expect(sink.checkAccess).toHaveBeenCalled();
+    expect(sink.writeLines).not.toHaveBeenCalled();
+    expect(changes.map(({ status }) => status)).toEqual(['ok']);
+  });
+
+  it('should be down when the server cannot be pinged', async () => {
+    (sink.ping as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+    const status = await monitor.check(sink);
+    expect(status.status).toBe('down');
+    expect(status.lastError).toBe('ECONNREFUSED');
+    // The initial status is down already
+    expect(changes).toEqual([]);
+  });
+
+  it('should tell refused credentials from a missing destination', async () => {
+    (sink.checkAccess as jest.Mock)
+      .mockRejectedValueOnce(new HttpError(401, 'Unauthorized'))
+      .mockRejectedValueOnce(new HttpError(404, 'Not Found'));
+
+    expect((await monitor.check(sink)).status).toBe('unauthorized');
+    expect((await monitor.check(sink)).status).toBe('not_found');
+    expect((await monitor.check(sink)).status).toBe('ok');
+  });
+
+  it('should follow the outcome of the batches', () => {
+    monitor.reportError(new HttpError(400, 'Bad Request'));
+    monitor.reportSuccess();
+    monitor.reportError(new HttpError(403, 'Forbidden'));
+    monitor.reportError(new HttpError(503, 'Service Unavailable'));
+    expect(changes.map(({ status }) => status)).toEqual([
+      'degraded',
+      'ok',
+      'unauthorized',
+      'down',
+    ]);
+    expect(monitor.getStatus().lastError).toBe('503 Service Unavailable');
+  });
+});
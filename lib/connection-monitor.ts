@@ -0,0 +1,136 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { HttpError } from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { ConnectionState, ConnectionStatus } from '../types';
+
+import { isRetriable, Sink } from './sink';
+
+/**
+ * Tells the connection state matching a failed check or write: the credentials are refused,
+ * the destination does not exist, the server cannot be reached or it rejects the points.
+ *
+ * @param error - The error of the check or write.
+ *
+ * @returns The connection state.
+ */
+const getErrorState = (error: Error): ConnectionState => {
+  if (error instanceof HttpError && [401, 403].includes(error.statusCode)) {
+    return 'unauthorized';
+  } else if (error instanceof HttpError && error.statusCode === 404) {
+    return 'not_found';
+  }
+  return isRetriable(error) ? 'down' : 'degraded';
+};
+
+/**
+ * Keeps track of the connection status towards InfluxDB, based on explicit health checks
+ * (ping, then access to the destination with the configured credentials) and on the outcome
+ * of the batches written in the meantime. No point is written to check the connection.
+ */
+export class ConnectionMonitor {
+  private status: ConnectionStatus = {
+    status: 'down',
+    lastError: null,
+    lastErrorAt: null,
+    updatedAt: new Date(),
+  };
+
+  constructor(
+    private readonly onChange: (status: ConnectionStatus) => void,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Returns the current connection status.
+   *
+   * @returns A copy of the connection status.
+   */
+  getStatus(): ConnectionStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Pings the server, then checks that the credentials are accepted and that the destination
+   * exists. A reachable and accessible destination is considered ok until the next batch tells
+   * otherwise.
+   *
+   * @param sink - The sink to check.
+   *
+   * @returns The resulting connection status.
+   */
+  async check(sink: Sink) {
+    try {
+      await sink.ping();
+    } catch (err) {
+      this.update('down', err);
+      return this.getStatus();
+    }
+
+    try {
+      await sink.checkAccess();
+    } catch (err) {
+      this.update(getErrorState(err), err);
+      return this.getStatus();
+    }
+
+    this.update('ok');
+    return this.getStatus();
+  }
+
+  /**
+   * Records a batch successfully written.
+   */
+  reportSuccess() {
+    if (this.status.status !== 'ok') {
+      this.update('ok');
+    }
+  }
+
+  /**
+   * Records a batch that could not be written. The server is considered unauthorized when it
+   * refuses the credentials, not found when the destination does not exist, down when it
+   * cannot be reached and degraded when it rejects the points.
+   *
+   * @param error - The write error.
+   */
+  reportError(error: Error) {
+    this.update(getErrorState(error), error);
+  }
+
+  /**
+   * Updates the connection status, notifying the change if the state is not the same anymore.
+   *
+   * @param state - The new connection state.
+   * @param error - The error that caused the new state, if any.
+   */
+  private update(state: ConnectionState, error?: Error) {
+    const previous = this.status.status;
+    const now = new Date();
+    this.status = {
+      status: state,
+      lastError: error ? error.message : this.status.lastError,
+      lastErrorAt: error ? now : this.status.lastErrorAt,
+      updatedAt: now,
+    };
+
+    if (state !== previous) {
+      if (error) {
+        this.logger.warn(
+          `InfluxDB Service: Connection is ${state} (${error.message})`,
+        );
+      } else {
+        this.logger.log(`InfluxDB Service: Connection is ${state}`);
+      }
+      this.onChange(this.getStatus());
+    }
+  }
+}
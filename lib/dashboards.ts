@@ -0,0 +1,307 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { flux, InfluxDB } from '@influxdata/influxdb-client';
+import {
+  OrgsAPI,
+  StacksAPI,
+  Template,
+  TemplatesAPI,
+} from '@influxdata/influxdb-client-apis';
+import slug from 'slug';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { MeasurementKey } from './measurements';
+import { SAMPLED_FIELDS, WEIGHT_BY_SAMPLE_RATE } from './sampler';
+
+// Measurements that are not analytics, hence left out of the dashboards
+const INTERNAL_MEASUREMENTS: MeasurementKey[] = ['healthCheck'];
+
+// Number of charts per row
+const CHARTS_PER_ROW = 2;
+
+export type DashboardOptions = {
+  bucket: string;
+  // Tag holding the block subjects
+  subjectTag: string;
+  // Measurement names, according to the naming strategy
+  measurements: Record<MeasurementKey, string>;
+};
+
+export type DashboardChart = {
+  name: string;
+  // Flux query, relying on the `v.timeRangeStart`, `v.timeRangeStop` and `v.windowPeriod` dashboard variables
+  query: string;
+};
+
+/**
+ * Builds the dashboard charts. Measurement names come from the naming strategy and the
+ * overview chart lists all the helper measurements, hence the dashboards follow the schema
+ * as measurements get renamed or added.
+ *
+ * @param options - The dashboard options.
+ *
+ * @returns The dashboard charts.
+ */
+export const getDashboardCharts = ({
+  bucket,
+  subjectTag,
+  measurements,
+}: DashboardOptions): DashboardChart[] => {
+  const events = (Object.keys(measurements) as MeasurementKey[])
+    .filter((key) => !INTERNAL_MEASUREMENTS.includes(key))
+    .map((key) => measurements[key]);
+  const source = flux`from(bucket: ${bucket})
+  |> range(start: v.timeRangeStart, stop: v.timeRangeStop)`;
+  // Events are counted by their weight, so that sampled out events are accounted for
+  const weighted = (measurementNames: string[]) =>
+    flux`${source}
+  |> filter(fn: (r) => contains(value: r._measurement, set: ${measurementNames}) and ${SAMPLED_FIELDS})
+  |> ${WEIGHT_BY_SAMPLE_RATE}
+  |> map(fn: (r) => ({r with _value: r.weight}))`;
+  const count = (measurementNames: string[], groupBy: string[]) =>
+    flux`${weighted(measurementNames)}
+  |> group(columns: ${groupBy})
+  |> aggregateWindow(every: v.windowPeriod, fn: sum, createEmpty: false)`.toString();
+  const mean = (measurementName: string) =>
+    flux`${source}
+  |> filter(fn: (r) => r._measurement == ${measurementName} and r._field == "value")
+  |> group(columns: ["channel"])
+  |> aggregateWindow(every: v.windowPeriod, fn: mean, createEmpty: false)`.toString();
+  const {
+    messageReceived: received,
+    localFallback: local,
+    globalFallback: global,
+  } = measurements;
+
+  return [
+    {
+      name: 'Messages',
+      query: count(
+        [measurements.messageReceived, measurements.messageSent],
+        ['_measurement', 'channel'],
+      ),
+    },
+    {
+      name: 'Fallback rate (%)',
+      query: flux`${weighted([received, local, global])}
+  |> group(columns: ["_measurement"])
+  |> aggregateWindow(every: v.windowPeriod, fn: sum, createEmpty: true)
+  |> group()
+  |> pivot(rowKey: ["_time"], columnKey: ["_measurement"], valueColumn: "_value")
+  |> map(fn: (r) => {
+    received = if exists r[${received}] then r[${received}] else 0.0
+    fallbacks = (if exists r[${local}] then r[${local}] else 0.0) + (if exists r[${global}] then r[${global}] else 0.0)
+    return {_time: r._time, _value: if received > 0.0 then fallbacks / received * 100.0 else 0.0}
+  })`.toString(),
+    },
+    {
+      name: 'Blocks by subject',
+      query: count([measurements.block], [subjectTag]),
+    },
+    {
+      name: 'Blocks by category',
+      query: count([measurements.block], ['category']),
+    },
+    {
+      name: 'Handovers',
+      query: count(
+        [measurements.handover, measurements.handback],
+        ['_measurement'],
+      ),
+    },
+    {
+      name: 'Human handling time (min)',
+      query: mean(measurements.handoverResolved),
+    },
+    {
+      name: 'Intervention delay (min)',
+      query: mean(measurements.interventionOpened),
+    },
+    {
+      name: 'New vs returning users',
+      query: flux`${weighted([measurements.stats])}
+  |> filter(fn: (r) => r.type == "new_users" or r.type == "returning_users")
+  |> group(columns: ["type"])
+  |> aggregateWindow(every: v.windowPeriod, fn: sum, createEmpty: false)`.toString(),
+    },
+    {
+      name: 'Statistics',
+      query: count([measurements.stats], ['type']),
+    },
+    {
+      name: 'Plugin events',
+      query: flux`${source}
+  |> filter(fn: (r) => r._measurement == ${measurements.plugin} and r._field == "plugin")
+  |> map(fn: (r) => ({r with plugin: r._value, _value: 1}))
+  |> group(columns: ["plugin"])
+  |> aggregateWindow(every: v.windowPeriod, fn: sum, createEmpty: false)`.toString(),
+    },
+    {
+      name: 'Events',
+      query: count(events, ['_measurement']),
+    },
+  ];
+};
+
+/**
+ * Builds an InfluxDB template holding the analytics dashboard.
+ *
+ * @param options - The dashboard options.
+ *
+ * @returns The InfluxDB template, as accepted by `influx apply` and the templates API.
+ */
+export const getInfluxdbTemplate = (options: DashboardOptions): Template => [
+  {
+    apiVersion: 'influxdata.com/v2alpha1',
+    kind: 'Dashboard',
+    metadata: { name: `hexabot-${slug(options.bucket)}` },
+    spec: {
+      name: `Hexabot analytics (${options.bucket})`,
+      description: 'Chatbot analytics written by the InfluxDB helper',
+      charts: getDashboardCharts(options).map(({ name, query }, index) => ({
+        kind: 'Xy',
+        name,
+        xPos: (index % CHARTS_PER_ROW) * 6,
+        yPos: Math.floor(index / CHARTS_PER_ROW) * 4,
+        width: 6,
+        height: 4,
+        geom: 'line',
+        position: 'overlaid',
+        xCol: '_time',
+        yCol: '_value',
+        shade: true,
+        axes: [
+          { name: 'x', base: '10', scale: 'linear' },
+          { name: 'y', base: '10', scale: 'linear' },
+        ],
+        colors: [
+          { type: 'scale', hex: '#31C0F6', name: 'Nineteen Eighty Four' },
+          { type: 'scale', hex: '#A500A5', name: 'Nineteen Eighty Four' },
+          { type: 'scale', hex: '#FF7E27', name: 'Nineteen Eighty Four' },
+        ],
+        queries: [{ query }],
+      })),
+    },
+  },
+];
+
+/**
+ * Builds a Grafana dashboard querying an InfluxDB (Flux) data source, which is prompted
+ * for when importing the dashboard.
+ *
+ * @param options - The dashboard options.
+ *
+ * @returns The Grafana dashboard JSON model.
+ */
+export const getGrafanaDashboard = (options: DashboardOptions) => {
+  const datasource = { type: 'influxdb', uid: '${DS_INFLUXDB}' };
+  return {
+    __inputs: [
+      {
+        name: 'DS_INFLUXDB',
+        label: 'InfluxDB',
+        type: 'datasource',
+        pluginId: 'influxdb',
+        pluginName: 'InfluxDB',
+      },
+    ],
+    title: `Hexabot analytics (${options.bucket})`,
+    uid: `hexabot-${slug(options.bucket)}`,
+    tags: ['hexabot'],
+    time: { from: 'now-7d', to: 'now' },
+    schemaVersion: 39,
+    panels: getDashboardCharts(options).map(({ name, query }, index) => ({
+      id: index + 1,
+      type: 'timeseries',
+      title: name,
+      datasource,
+      gridPos: {
+        x: (index % CHARTS_PER_ROW) * 12,
+        y: Math.floor(index / CHARTS_PER_ROW) * 8,
+        w: 12,
+        h: 8,
+      },
+      targets: [{ refId: 'A', datasource, query }],
+    })),
+  };
+};
+
+/**
+ * Applies the InfluxDB dashboard template through a dedicated stack, so that applying it
+ * again updates the dashboard rather than creating a new one.
+ */
+export class DashboardInstaller {
+  constructor(
+    private readonly client: InfluxDB,
+    private readonly organization: string,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Builds the name of the stack holding the dashboard.
+   *
+   * @param bucket - The bucket name.
+   *
+   * @returns The stack name.
+   */
+  static getStackName(bucket: string) {
+    return `influxdb-helper ${bucket} dashboards`;
+  }
+
+  /**
+   * Looks up the stack by name, or creates it if it does not exist yet.
+   *
+   * @param orgID - The organization id.
+   * @param name - The stack name.
+   *
+   * @returns The stack id.
+   */
+  private async ensureStack(orgID: string, name: string) {
+    const stacksApi = new StacksAPI(this.client);
+    const { stacks } = await stacksApi.listStacks({ orgID, name });
+    if (stacks?.length) {
+      return stacks[0].id;
+    }
+
+    const stack = await stacksApi.createStack({ body: { orgID, name } });
+    this.logger.log(`InfluxDB Service: Created dashboards stack "${name}"`);
+    return stack.id;
+  }
+
+  /**
+   * Applies the dashboard template.
+   *
+   * @param options - The dashboard options.
+   */
+  async apply(options: DashboardOptions) {
+    const { orgs } = await new OrgsAPI(this.client).getOrgs({
+      org: this.organization,
+    });
+    if (!orgs?.length) {
+      throw new Error(`Organization "${this.organization}" not found`);
+    }
+    const orgID = orgs[0].id;
+    const stackID = await this.ensureStack(
+      orgID,
+      DashboardInstaller.getStackName(options.bucket),
+    );
+
+    await new TemplatesAPI(this.client).applyTemplate({
+      body: {
+        orgID,
+        stackID,
+        template: { contents: getInfluxdbTemplate(options) },
+      },
+    });
+    this.logger.log(
+      `InfluxDB Service: Applied the dashboard template to bucket "${options.bucket}"`,
+    );
+  }
+}
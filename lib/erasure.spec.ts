@@ -0,0 +1,250 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  createFluxTableColumn,
+  createFluxTableMetaData,
+  FluxTableMetaData,
+  HttpError,
+  InfluxDB,
+  ParameterizedQuery,
+} from '@influxdata/influxdb-client';
+import { DeleteAPI } from '@influxdata/influxdb-client-apis';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  ErasureOptions,
+  getDeletePredicate,
+  getErasureWindows,
+  isSubscriberLine,
+  SubscriberEraser,
+} from './erasure';
+import { createLoggerMock } from './test/mocks';
+
+jest.mock('@influxdata/influxdb-client-apis');
+
+describe('getDeletePredicate', () => {
+  it('should match the measurement and the tags of the series', () => {
+    expect(
+      getDeletePredicate({
+        measurement: 'message_received',
+        tags: { channel: 'web-channel', type: 'message' },
+      }),
+    ).toBe(
+      '_measurement="message_received" AND channel="web-channel" AND type="message"',
+    );
+  });
+
+  it('should escape the values', () => {
+    expect(
+      getDeletePredicate({
+        measurement: 'Block',
+        tags: { subject: 'Say "hi" \\o/' },
+      }),
+    ).toBe('_measurement="Block" AND subject="Say \\"hi\\" \\\\o/"');
+  });
+});
+
+describe('getErasureWindows', () => {
+  const series = { measurement: 'message_received', tags: { channel: 'web' } };
+
+  it('should erase the close points of a series with a single window', () => {
+    expect(
+      getErasureWindows(series, [
+        '2024-06-01T10:00:00.000000001Z',
+        '2024-06-01T10:30:00Z',
+        '2024-06-01T11:15:00.5Z',
+      ]),
+    ).toEqual([
+      {
+        ...series,
+        start: '2024-06-01T10:00:00.000000001Z',
+        stop: '2024-06-01T11:15:00.5Z',
+        points: 3,
+      },
+    ]);
+  });
+
+  it('should split the points far apart into several windows', () => {
+    expect(
+      getErasureWindows(series, [
+        '2024-06-01T10:00:00Z',
+        '2024-06-01T10:10:00Z',
+        '2024-06-02T08:00:00Z',
+      ]),
+    ).toEqual([
+      {
+        ...series,
+        start: '2024-06-01T10:00:00Z',
+        stop: '2024-06-01T10:10:00Z',
+        points: 2,
+      },
+      {
+        ...series,
+        start: '2024-06-02T08:00:00Z',
+        stop: '2024-06-02T08:00:00Z',
+        points: 1,
+      },
+    ]);
+  });
+});
+
+describe('isSubscriberLine', () => {
+  it('should match the lines whose recipient is the subscriber', () => {
+    expect(
+      isSubscriberLine(
+        'message_received,channel=web value=1,recipient="abc" 1',
+        'abc',
+      ),
+    ).toBe(true);
+    expect(
+      isSubscriberLine(
+        'message_received,channel=web recipient="abc",value=1 1',
+        'abc',
+      ),
+    ).toBe(true);
+  });
+
+  it('should not match the lines of other subscribers', () => {
+    expect(
+      isSubscriberLine(
+        'message_received,channel=web value=1,recipient="abcd" 1',
+        'abc',
+      ),
+    ).toBe(false);
+    expect(
+      isSubscriberLine(
+        'message_received,channel=web value=1,sender="abc" 1',
+        'abc',
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('SubscriberEraser', () => {
+  const deleteApi = DeleteAPI.prototype as jest.Mocked<DeleteAPI>;
+  const seriesMeta = createFluxTableMetaData([
+    createFluxTableColumn({ label: '_measurement', group: true }),
+    createFluxTableColumn({ label: 'channel', group: true }),
+    createFluxTableColumn({ label: '_time', dataType: 'dateTime:RFC3339' }),
+  ]);
+  const pointMeta = createFluxTableMetaData([
+    ...seriesMeta.columns,
+    createFluxTableColumn({ label: 'value', dataType: 'double' }),
+    createFluxTableColumn({ label: 'recipient' }),
+  ]);
+  const time = '2024-06-01T10:00:00Z';
+  let directory: string;
+  let windowPoints: string[][];
+  let counts: number[];
+  let write: jest.Mock;
+  let eraser: SubscriberEraser;
+
+  // Answers the lookup of the series, the fetch and the count of the window points
+  const collectRows = async (
+    query: ParameterizedQuery,
+    mapper?: (values: string[], tableMeta: FluxTableMetaData) => unknown,
+  ) => {
+    const text = query.toString();
+    if (text.includes('r._field == "recipient"')) {
+      return [mapper(['Block', 'web', time], seriesMeta)];
+    } else if (text.includes('count(')) {
+      return [{ _time: counts.shift() }];
+    }
+    return windowPoints
+      .shift()
+      .map((recipient) =>
+        mapper(['Block', 'web', time, '1', recipient], pointMeta),
+      );
+  };
+
+  const erase = (options: Partial<ErasureOptions> = {}) =>
+    eraser.erase('abc', {
+      mode: 'delete',
+      since: new Date(0),
+      backupDirectory: directory,
+      maxRetries: 0,
+      write,
+      ...options,
+    });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    directory = await mkdtemp(join(tmpdir(), 'influxdb-erasure-'));
+    windowPoints = [['abc', 'def']];
+    counts = [2];
+    write = jest.fn().mockResolvedValue(undefined);
+    eraser = new SubscriberEraser(
+      { getQueryApi: () => ({ collectRows }) } as unknown as InfluxDB,
+      'hexastack',
+      'hexabot',
+      createLoggerMock(),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should delete the window, then write back the points of the other subscribers', async () => {
+    expect(await erase()).toEqual({
+      subscriber: 'abc',
+      mode: 'delete',
+      points: 1,
+      measurements: { Block: 1 },
+    });
+    expect(deleteApi.postDelete).toHaveBeenCalledWith({
+      org: 'hexastack',
+      bucket: 'hexabot',
+      body: {
+        start: time,
+        stop: time,
+        predicate: '_measurement="Block" AND channel="web"',
+      },
+    });
+    expect(write).toHaveBeenCalledWith([
+      'Block,channel=web recipient="def",value=1 1717236000000000000',
+    ]);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should fetch the points again when points were written to the window in the meantime', async () => {
+    windowPoints = [
+      ['abc', 'def'],
+      ['abc', 'def', 'ghi'],
+    ];
+    counts = [3, 3];
+
+    await erase();
+
+    expect(write.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should stop the erasure and keep the backup when the points cannot be written back', async () => {
+    write.mockRejectedValue(new HttpError(400, 'Bad Request'));
+
+    await expect(erase()).rejects.toThrow('erasure stopped');
+
+    const [backup] = await readdir(directory);
+    expect(await readFile(join(directory, backup), 'utf8')).toBe(
+      'Block,channel=web recipient="def",value=1 1717236000000000000',
+    );
+  });
+
+  it('should retry writing back the points', async () => {
+    write
+      .mockRejectedValueOnce(new HttpError(503, 'Service Unavailable', '', '0'))
+      .mockResolvedValue(undefined);
+
+    await erase({ maxRetries: 1 });
+
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,463 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  flux,
+  FluxTableMetaData,
+  getRetryDelay,
+  InfluxDB,
+  Point,
+} from '@influxdata/influxdb-client';
+import { DeleteAPI } from '@influxdata/influxdb-client-apis';
+import { randomBytes } from 'crypto';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { ErasureReport } from '../types';
+
+import { isRetriable } from './sink';
+
+export const ERASURE_MODES = ['delete', 'anonymize'] as const;
+
+export type ErasureMode = (typeof ERASURE_MODES)[number];
+
+// Fields holding the subscriber identity, removed when anonymizing points
+const SUBSCRIBER_FIELDS = [
+  'recipient',
+  'foreign_id',
+  'first_name',
+  'last_name',
+];
+
+// Columns added by Flux that are neither tags nor fields
+const FLUX_COLUMNS = ['result', 'table'];
+
+// Points of a subscriber closer than this (in ms) are erased with the same delete request
+const MAX_WINDOW_GAP = 60 * 60 * 1000;
+
+// Number of times the points of a window are fetched again when points keep being written to it
+const MAX_WINDOW_LOOKUPS = 3;
+
+type Series = {
+  measurement: string;
+  tags: { [key: string]: string };
+};
+
+export type ErasureOptions = {
+  mode: ErasureMode;
+  // Start of the lookup of the subscriber's points, e.g. the subscriber creation date
+  since: Date;
+  // Directory where the kept points of a window are saved before the window gets deleted
+  backupDirectory: string;
+  // Max number of retries when writing back the kept points
+  maxRetries: number;
+  // Writes line protocol lines (in nanoseconds) to the bucket, used to write back the kept points
+  write: (lines: string[]) => Promise<void>;
+};
+
+type ErasureWindow = Series & {
+  // RFC3339 timestamps of the first and last points of the subscriber, with up to a nanosecond precision
+  start: string;
+  stop: string;
+  // Number of points of the subscriber within the window
+  points: number;
+};
+
+/**
+ * Converts a RFC3339 timestamp into nanoseconds since epoch, without losing precision.
+ *
+ * @param time - The RFC3339 timestamp.
+ *
+ * @returns The number of nanoseconds since epoch, as a string.
+ */
+const toNanoseconds = (time: string) => {
+  const [, seconds, fraction = ''] = time.match(/^([^.]+?)(?:\.(\d+))?Z$/);
+  return `${Date.parse(`${seconds}Z`) / 1000}${fraction.padEnd(9, '0')}`;
+};
+
+/**
+ * Escapes a value to be used in a delete predicate.
+ *
+ * @param value - The tag or measurement value.
+ *
+ * @returns The escaped value.
+ */
+const escapePredicateValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/**
+ * Builds the delete predicate matching a series.
+ *
+ * @param series - The measurement and tags of the series.
+ *
+ * @returns The delete predicate.
+ */
+export const getDeletePredicate = ({ measurement, tags }: Series) =>
+  Object.entries({ _measurement: measurement, ...tags })
+    .map(([key, value]) => `${key}="${escapePredicateValue(value)}"`)
+    .join(' AND ');
+
+/**
+ * Checks whether a line protocol line belongs to a subscriber, that is whether its `recipient`
+ * field holds the subscriber id.
+ *
+ * @param line - The line protocol line.
+ * @param id - The subscriber id.
+ *
+ * @returns True if the line carries the subscriber id.
+ */
+export const isSubscriberLine = (line: string, id: string) =>
+  line.includes(` recipient="${escapePredicateValue(id)}"`) ||
+  line.includes(`,recipient="${escapePredicateValue(id)}"`);
+
+/**
+ * Splits the timestamps of the subscriber's points of a series into windows, a new window
+ * starting whenever two points are further apart than the max window gap.
+ *
+ * @param series - The measurement and tags of the series.
+ * @param times - The RFC3339 timestamps of the subscriber's points, in ascending order.
+ *
+ * @returns The windows to erase.
+ */
+export const getErasureWindows = (
+  series: Series,
+  times: string[],
+): ErasureWindow[] =>
+  times.reduce((windows, time) => {
+    const last = windows[windows.length - 1];
+    if (last && Date.parse(time) - Date.parse(last.stop) <= MAX_WINDOW_GAP) {
+      last.stop = time;
+      last.points++;
+    } else {
+      windows.push({ ...series, start: time, stop: time, points: 1 });
+    }
+    return windows;
+  }, [] as ErasureWindow[]);
+
+/**
+ * Erases the points related to a subscriber (identified by the `recipient` field) across all
+ * the measurements of a bucket.
+ *
+ * InfluxDB delete predicates only apply to tags, while the subscriber is a field: deleting the
+ * subscriber's series would delete the points of the other subscribers sharing them. Points are
+ * therefore looked up by field first, then each series is erased window by window: the points of
+ * the window are fetched, deleted with a single request, and the ones of other subscribers are
+ * written back. In the `anonymize` mode, the subscriber's points are written back as well, without
+ * the subscriber identity fields.
+ * The kept points are saved in a backup file before their window gets deleted, and the window is
+ * counted again right before the delete so that points written to it in the meantime are kept as
+ * well. The erasure stops at the first window whose points cannot be written back, the backup file
+ * holding them being named in the error.
+ */
+export class SubscriberEraser {
+  constructor(
+    private readonly client: InfluxDB,
+    private readonly organization: string,
+    private readonly bucket: string,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Looks up the series holding points written for a subscriber, along with the time windows
+   * of these points.
+   *
+   * @param id - The subscriber id.
+   * @param since - The start of the lookup.
+   *
+   * @returns The windows to erase, by series.
+   */
+  private async findWindows(id: string, since: Date): Promise<ErasureWindow[]> {
+    const queryApi = this.client.getQueryApi(this.organization);
+    const rows = await queryApi.collectRows(
+      flux`from(bucket: ${this.bucket})
+  |> range(start: ${since})
+  |> filter(fn: (r) => r._field == "recipient" and r._value == ${id})
+  |> keep(fn: (column) => column != "_value")
+  |> sort(columns: ["_time"])`,
+      (values, tableMeta) => {
+        const row = tableMeta.toObject(values);
+        return {
+          series: {
+            measurement: row._measurement,
+            tags: this.getTags(row, tableMeta),
+          },
+          time: row._time as string,
+        };
+      },
+    );
+    const bySeries = rows.reduce(
+      (acc, { series, time }) => {
+        const key = getDeletePredicate(series);
+        acc[key] = acc[key] || { series, times: [] };
+        acc[key].times.push(time);
+        return acc;
+      },
+      {} as { [key: string]: { series: Series; times: string[] } },
+    );
+    return Object.values(bySeries).flatMap(({ series, times }) =>
+      getErasureWindows(series, times),
+    );
+  }
+
+  /**
+   * Extracts the tags of a row, that is the columns of the group key that are not
+   * InfluxDB internal columns.
+   *
+   * @param row - The row object.
+   * @param tableMeta - The table metadata.
+   *
+   * @returns The tags of the row.
+   */
+  private getTags(row: { [key: string]: any }, tableMeta: FluxTableMetaData) {
+    return tableMeta.columns
+      .filter(
+        ({ label, group }) =>
+          group && !label.startsWith('_') && !FLUX_COLUMNS.includes(label),
+      )
+      .reduce(
+        (acc, { label }) =>
+          row[label] !== '' && row[label] !== null
+            ? { ...acc, [label]: row[label] }
+            : acc,
+        {} as { [key: string]: string },
+      );
+  }
+
+  /**
+   * Builds the query of the points of a window, that is all the points matched by its delete
+   * predicate (including series with additional tags) in its time range, one row per point.
+   *
+   * @param window - The window to erase.
+   *
+   * @returns The Flux query.
+   */
+  private getWindowQuery({ measurement, tags, start, stop }: ErasureWindow) {
+    const matches = Object.entries(tags).reduce(
+      (acc, [key, value]) => flux`${acc} and r[${key}] == ${value}`,
+      flux`r._measurement == ${measurement}`,
+    );
+    return flux`from(bucket: ${this.bucket})
+  |> range(start: time(v: ${start}), stop: ${new Date(Date.parse(stop) + 1)})
+  |> filter(fn: (r) => ${matches} and r._time <= time(v: ${stop}))
+  |> pivot(rowKey: ["_time"], columnKey: ["_field"], valueColumn: "_value")`;
+  }
+
+  /**
+   * Fetches the points of a window and rebuilds the ones to keep.
+   *
+   * @param id - The subscriber id.
+   * @param window - The window to erase.
+   * @param mode - Whether the subscriber's points are deleted or anonymized.
+   *
+   * @returns The number of points of the window, and the lines to write back once it is deleted.
+   */
+  private async getKeptLines(
+    id: string,
+    window: ErasureWindow,
+    mode: ErasureMode,
+  ) {
+    const queryApi = this.client.getQueryApi(this.organization);
+    const rows = await queryApi.collectRows(
+      this.getWindowQuery(window),
+      (values, tableMeta) => {
+        const row = tableMeta.toObject(values);
+        return row.recipient === id && mode === 'delete'
+          ? null
+          : this.toPoint(row, tableMeta, row.recipient === id);
+      },
+    );
+    return {
+      total: rows.length,
+      lines: rows
+        .filter((point) => !!point)
+        .map((point) => point.toLineProtocol()),
+    };
+  }
+
+  /**
+   * Counts the points of a window, to make sure that none was written since they were fetched.
+   *
+   * @param window - The window to erase.
+   *
+   * @returns The number of points of the window.
+   */
+  private async countPoints(window: ErasureWindow) {
+    const queryApi = this.client.getQueryApi(this.organization);
+    const rows = await queryApi.collectRows<{ _time: number }>(
+      flux`${this.getWindowQuery(window)}
+  |> group()
+  |> count(column: "_time")`,
+    );
+    return rows.length ? rows[0]._time : 0;
+  }
+
+  /**
+   * Rebuilds a point from a pivoted row.
+   *
+   * @param row - The row object, holding the tags and fields of the point.
+   * @param tableMeta - The table metadata.
+   * @param anonymize - Whether to leave the subscriber identity fields out.
+   *
+   * @returns The point.
+   */
+  private toPoint(
+    row: { [key: string]: any },
+    tableMeta: FluxTableMetaData,
+    anonymize: boolean,
+  ) {
+    const point = new Point(row._measurement).timestamp(
+      toNanoseconds(row._time),
+    );
+    Object.entries(this.getTags(row, tableMeta)).forEach(([key, value]) =>
+      point.tag(key, value),
+    );
+    tableMeta.columns
+      .filter(
+        ({ label, group }) =>
+          !group &&
+          !label.startsWith('_') &&
+          !FLUX_COLUMNS.includes(label) &&
+          !(anonymize && SUBSCRIBER_FIELDS.includes(label)) &&
+          row[label] !== null &&
+          row[label] !== undefined,
+      )
+      .forEach(({ label, dataType }) => {
+        switch (dataType) {
+          case 'long':
+            point.intField(label, row[label]);
+            break;
+          case 'unsignedLong':
+            point.uintField(label, row[label]);
+            break;
+          case 'double':
+            point.floatField(label, row[label]);
+            break;
+          case 'boolean':
+            point.booleanField(label, row[label]);
+            break;
+          default:
+            point.stringField(label, row[label]);
+        }
+      });
+    return point;
+  }
+
+  /**
+   * Deletes the points of a window, with a single request.
+   *
+   * @param window - The window to delete.
+   */
+  private async delete(window: ErasureWindow) {
+    await new DeleteAPI(this.client).postDelete({
+      org: this.organization,
+      bucket: this.bucket,
+      body: {
+        start: window.start,
+        stop: window.stop,
+        predicate: getDeletePredicate(window),
+      },
+    });
+  }
+
+  /**
+   * Saves the kept lines of a window in a new backup file.
+   *
+   * @param lines - The line protocol lines to save.
+   * @param directory - The backup directory.
+   *
+   * @returns The path of the backup file.
+   */
+  private async backup(lines: string[], directory: string) {
+    await mkdir(directory, { recursive: true });
+    const path = join(
+      directory,
+      `${Date.now()}-${randomBytes(4).toString('hex')}.lp`,
+    );
+    await writeFile(path, lines.join('\n'), { flag: 'wx' });
+    return path;
+  }
+
+  /**
+   * Writes back the kept lines of a window, retrying as long as the error is retriable and the
+   * retries are not exhausted.
+   *
+   * @param lines - The line protocol lines to write back.
+   * @param options - The erasure options.
+   */
+  private async writeBack(
+    lines: string[],
+    { maxRetries, write }: ErasureOptions,
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await write(lines);
+        return;
+      } catch (err) {
+        if (!isRetriable(err) || attempt > maxRetries) {
+          throw err;
+        }
+        await new Promise((resolve) => setTimeout(resolve, getRetryDelay(err)));
+      }
+    }
+  }
+
+  /**
+   * Erases the points of a subscriber.
+   *
+   * @param id - The subscriber id.
+   * @param options - The erasure mode, the start of the lookup, where to save the kept points and how to write them back.
+   *
+   * @returns A report of the erased points.
+   */
+  async erase(id: string, options: ErasureOptions): Promise<ErasureReport> {
+    const { mode, since, backupDirectory } = options;
+    const report: ErasureReport = {
+      subscriber: id,
+      mode,
+      points: 0,
+      measurements: {},
+    };
+    for (const window of await this.findWindows(id, since)) {
+      // Kept points must be fetched before being deleted, then fetched again if points were
+      // written to the window in the meantime (e.g. replayed from a spool)
+      let kept = await this.getKeptLines(id, window, mode);
+      for (let lookups = 1; (await this.countPoints(window)) !== kept.total;) {
+        if (lookups++ >= MAX_WINDOW_LOOKUPS) {
+          throw new Error(
+            `Points keep being written to the ${window.measurement} series of subscriber ${id}, erasure stopped`,
+          );
+        }
+        kept = await this.getKeptLines(id, window, mode);
+      }
+      const backup = kept.lines.length
+        ? await this.backup(kept.lines, backupDirectory)
+        : null;
+      await this.delete(window);
+      if (backup) {
+        try {
+          await this.writeBack(kept.lines, options);
+        } catch (err) {
+          throw new Error(
+            `Unable to write back ${kept.lines.length} point(s) to bucket ${this.bucket}, erasure stopped: import ${backup} to restore them (${err.message})`,
+          );
+        }
+        await unlink(backup);
+      }
+      report.points += window.points;
+      report.measurements[window.measurement] =
+        (report.measurements[window.measurement] || 0) + window.points;
+    }
+
+    this.logger.log(
+      `InfluxDB Service: Erased ${report.points} point(s) of subscriber ${id} from bucket ${this.bucket} (${mode})`,
+    );
+    return report;
+  }
+}
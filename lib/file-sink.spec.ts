@@ -0,0 +1,98 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { Point } from '@influxdata/influxdb-client';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { FileSink, readLineProtocolFile } from './file-sink';
+import { createLoggerMock } from './test/mocks';
+
+describe('FileSink', () => {
+  const logger = createLoggerMock();
+  let directory: string;
+  let path: string;
+
+  const createSink = (maxSize = 1024 * 1024, maxFiles = 1) =>
+    new FileSink(
+      {
+        path,
+        batchSize: 100,
+        flushInterval: 0,
+        precision: 'ms',
+        maxSize,
+        maxFiles,
+      },
+      logger,
+    );
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'influxdb-file-sink-'));
+    path = join(directory, 'analytics.lp');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the timestamps in nanoseconds, whatever the precision', async () => {
+    const sink = createSink();
+    sink.write(
+      new Point('Block')
+        .floatField('value', 1)
+        .timestamp(new Date('2024-06-01T10:00:00.123Z')),
+    );
+    await sink.flush();
+    await sink.writeLines(['Block value=2 1717236000124'], 'ms');
+    await sink.close();
+
+    expect(await readFile(path, 'utf8')).toBe(
+      'Block value=1 1717236000123000000\nBlock value=2 1717236000124000000\n',
+    );
+  });
+
+  it('should rotate the file once it exceeds its max size', async () => {
+    const sink = createSink(40);
+    await sink.writeLines(['Block value=1 1', 'Block value=2 2']);
+    await sink.writeLines(['Block value=3 3']);
+    await sink.close();
+
+    expect(await readFile(`${path}.1`, 'utf8')).toBe(
+      'Block value=1 1\nBlock value=2 2\n',
+    );
+    expect(await readFile(path, 'utf8')).toBe('Block value=3 3\n');
+  });
+});
+
+describe('readLineProtocolFile', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'influxdb-import-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read the lines in chunks, skipping empty lines and comments', async () => {
+    const path = join(directory, 'import.lp');
+    await writeFile(
+      path,
+      '# exported points\na value=1 1\r\n\nb value=2 2\nc value=3 3\n',
+    );
+    const chunks: string[][] = [];
+
+    const count = await readLineProtocolFile(path, 2, async (lines) => {
+      chunks.push(lines);
+    });
+
+    expect(count).toBe(3);
+    expect(chunks).toEqual([['a value=1 1', 'b value=2 2'], ['c value=3 3']]);
+  });
+});
@@ -0,0 +1,240 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Point, WritePrecisionType } from '@influxdata/influxdb-client';
+import { constants, createReadStream } from 'fs';
+import { access, appendFile, mkdir, rename, stat, unlink } from 'fs/promises';
+import { dirname } from 'path';
+import { createInterface } from 'readline';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { BatchOptions, BatchTuning, getTimeConverter, Sink } from './sink';
+
+export type FileSinkOptions = Pick<
+  BatchOptions,
+  'batchSize' | 'flushInterval' | 'precision' | 'onSuccess' | 'onError'
+> & {
+  path: string;
+  // Max size of the file in bytes, before it gets rotated
+  maxSize: number;
+  // Number of rotated files to keep
+  maxFiles: number;
+};
+
+// Factors converting the timestamps of each precision to nanoseconds
+const NANOSECONDS: Record<WritePrecisionType, bigint> = {
+  s: 1_000_000_000n,
+  ms: 1_000_000n,
+  us: 1_000n,
+  ns: 1n,
+};
+
+/**
+ * Converts the timestamp of a line protocol line to nanoseconds.
+ *
+ * @param line - The line protocol line, ending with its timestamp.
+ * @param precision - The precision of the line timestamp.
+ *
+ * @returns The line with a nanosecond timestamp.
+ */
+const toNanoseconds = (line: string, precision: WritePrecisionType) =>
+  precision === 'ns'
+    ? line
+    : line.replace(
+        / (\d+)$/,
+        (_, timestamp: string) =>
+          ` ${BigInt(timestamp) * NANOSECONDS[precision]}`,
+      );
+
+/**
+ * Reads a line protocol file, such as the ones written by the file sink, in chunks.
+ * Empty lines and comments are skipped.
+ *
+ * @param path - The path of the line protocol file.
+ * @param chunkSize - The max number of lines per chunk.
+ * @param onChunk - Called with each chunk, the next one being read once it resolves.
+ *
+ * @returns A promise resolved with the number of lines read.
+ */
+export const readLineProtocolFile = async (
+  path: string,
+  chunkSize: number,
+  onChunk: (lines: string[]) => Promise<void>,
+) => {
+  const reader = createInterface({
+    input: createReadStream(path, 'utf8'),
+    crlfDelay: Infinity,
+  });
+  let chunk: string[] = [];
+  let count = 0;
+  for await (const line of reader) {
+    if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+    chunk.push(line);
+    count++;
+    if (chunk.length >= chunkSize) {
+      await onChunk(chunk);
+      chunk = [];
+    }
+  }
+  if (chunk.length) {
+    await onChunk(chunk);
+  }
+  return count;
+};
+
+/**
+ * Appends the points, serialized as line protocol, to a local file instead of sending them
+ * to InfluxDB. Timestamps are always written in nanoseconds, which is the default precision
+ * of the InfluxDB write API and CLI, so that the file can be imported as is.
+ * The file is rotated once it exceeds its max size: `<path>.1` holds the previous file,
+ * `<path>.2` the one before, and so on up to the number of files to keep.
+ */
+export class FileSink implements Sink {
+  private lines: string[] = [];
+
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  // Appends are chained so that batches are written in order
+  private appending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly options: FileSinkOptions,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async ping() {
+    await mkdir(dirname(this.options.path), { recursive: true });
+    await access(dirname(this.options.path), constants.W_OK);
+  }
+
+  // Write access to the directory is already checked by ping()
+  async checkAccess() {}
+
+  write(point: Point) {
+    const { precision } = this.options;
+    const line = point.toLineProtocol({
+      convertTime: getTimeConverter(precision),
+    });
+    if (!line) {
+      return;
+    }
+
+    this.lines.push(toNanoseconds(line, precision));
+    if (this.lines.length >= this.options.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer && this.options.flushInterval > 0) {
+      this.flushTimer = setTimeout(
+        () => this.flush(),
+        this.options.flushInterval,
+      );
+    }
+  }
+
+  writeLines(lines: string[], precision: WritePrecisionType = 'ns') {
+    return this.append(lines.map((line) => toNanoseconds(line, precision)));
+  }
+
+  /**
+   * Rotates the file: each rotated file is shifted by one, the oldest one being overwritten.
+   * The file is simply dropped when no rotated file is kept.
+   */
+  private async rotate() {
+    const { path, maxFiles } = this.options;
+    if (!maxFiles) {
+      await unlink(path);
+    }
+    for (let index = maxFiles; index > 0; index--) {
+      try {
+        await rename(
+          index > 1 ? `${path}.${index - 1}` : path,
+          `${path}.${index}`,
+        );
+      } catch (err) {
+        if (err.code !== 'ENOENT') {
+          throw err;
+        }
+      }
+    }
+    this.logger.log(`InfluxDB Service: Rotated line protocol file ${path}`);
+  }
+
+  /**
+   * Appends lines to the file, rotating it first if they would exceed its max size.
+   *
+   * @param lines - The line protocol lines to append.
+   *
+   * @returns A promise resolved once the lines are written, rejected if the write fails.
+   */
+  private append(lines: string[]) {
+    const { path, maxSize } = this.options;
+    const appended = this.appending.then(async () => {
+      if (!lines.length) {
+        return;
+      }
+
+      const data = `${lines.join('\n')}\n`;
+      await mkdir(dirname(path), { recursive: true });
+      const size = await stat(path).then(
+        ({ size }) => size,
+        () => 0,
+      );
+      if (size > 0 && size + Buffer.byteLength(data) > maxSize) {
+        await this.rotate();
+      }
+      await appendFile(path, data);
+    });
+    // A failed append does not prevent the next ones
+    this.appending = appended.catch(() => {});
+    return appended;
+  }
+
+  getQueueDepth() {
+    return this.lines.length;
+  }
+
+  configure({ batchSize, flushInterval }: Partial<BatchTuning>) {
+    Object.assign(this.options, {
+      batchSize: batchSize ?? this.options.batchSize,
+      flushInterval: flushInterval ?? this.options.flushInterval,
+    });
+  }
+
+  async flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const lines = this.lines;
+    this.lines = [];
+    try {
+      await this.append(lines);
+      if (lines.length) {
+        this.logger.debug(
+          `InfluxDB Service: Successfully logged ${lines.length} analytic event(s) to ${this.options.path}`,
+        );
+        this.options.onSuccess?.(lines);
+      }
+      return [];
+    } catch (err) {
+      this.logger.error(
+        `InfluxDB Service: Unable to write ${lines.length} analytic event(s) to ${this.options.path}`,
+        err,
+      );
+      this.options.onError?.(err, lines);
+      return lines;
+    }
+  }
+
+  async close() {
+    await this.flush();
+  }
+}
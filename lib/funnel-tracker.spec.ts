@@ -0,0 +1,118 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { Block } from '@/chat/schemas/block.schema';
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+
+import { FunnelAbandonReason } from '../types';
+
+import { FunnelProgress, FunnelTracker } from './funnel-tracker';
+import { createLoggerMock } from './test/mocks';
+
+describe('FunnelTracker', () => {
+  const subscriber = { id: 'subscriber-1' } as Subscriber;
+  const block = (name: string) => ({ id: name, name }) as Block;
+  const at = (minutes: number) =>
+    new Date(Date.UTC(2024, 5, 1, 10) + minutes * 60 * 1000);
+  const funnels = JSON.stringify([
+    {
+      name: 'order',
+      steps: [{ name: 'menu' }, { name: 'cart' }, { subject: 'payment' }],
+      timeout: 10,
+    },
+  ]);
+  let steps: number[];
+  let converted: FunnelProgress[];
+  let abandoned: [FunnelProgress, FunnelAbandonReason, Date][];
+  let tracker: FunnelTracker;
+
+  beforeEach(() => {
+    steps = [];
+    converted = [];
+    abandoned = [];
+    tracker = new FunnelTracker(
+      {
+        onStep: async (progress) => steps.push(progress.step),
+        onConverted: async (progress) => converted.push({ ...progress }),
+        onAbandoned: async (progress, reason, abandonedAt) =>
+          abandoned.push([{ ...progress }, reason, abandonedAt]),
+      },
+      createLoggerMock(),
+    );
+  });
+
+  const track = (name: string, minutes: number, subject = 'other') =>
+    tracker.trackBlock(
+      funnels,
+      subscriber,
+      'web',
+      block(name),
+      subject,
+      at(minutes),
+    );
+
+  it('should convert a funnel once its steps are reached in order', async () => {
+    await track('menu', 0);
+    // Blocks that are not the next step are ignored
+    await track('faq', 1);
+    await track('cart', 2);
+    await track('checkout', 3, 'payment');
+
+    expect(steps).toEqual([0, 1, 2]);
+    expect(converted).toEqual([
+      expect.objectContaining({
+        channel: 'web',
+        step: 2,
+        startedAt: at(0),
+        lastStepAt: at(3),
+      }),
+    ]);
+    expect(abandoned).toEqual([]);
+  });
+
+  it('should abandon a funnel when the next step comes too late, as of its timeout', async () => {
+    await track('menu', 0);
+    await track('cart', 11);
+
+    expect(abandoned).toEqual([
+      [expect.objectContaining({ step: 0 }), 'timeout', at(10)],
+    ]);
+    expect(steps).toEqual([0]);
+  });
+
+  it('should abandon the expired funnels on sweep, as of their timeout', async () => {
+    await track('menu', 0);
+    await tracker.sweep();
+
+    expect(abandoned).toEqual([
+      [expect.objectContaining({ step: 0 }), 'timeout', at(10)],
+    ]);
+  });
+
+  it('should abandon the ongoing funnels of a subscriber', async () => {
+    await track('menu', 0);
+    await tracker.abandon(subscriber.id, 'fallback', at(1));
+    // Reaching the next step does not resume the abandoned funnel
+    await track('cart', 1);
+
+    expect(abandoned).toEqual([
+      [expect.objectContaining({ step: 0 }), 'fallback', at(1)],
+    ]);
+    expect(steps).toEqual([0]);
+  });
+
+  it('should ignore the invalid funnels', async () => {
+    await tracker.trackBlock(
+      JSON.stringify([{ name: 'empty', steps: [] }]),
+      subscriber,
+      'web',
+      block('menu'),
+      'other',
+    );
+    expect(steps).toEqual([]);
+  });
+});
@@ -0,0 +1,293 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Block, BlockFull } from '@/chat/schemas/block.schema';
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+import { LoggerService } from '@/logger/logger.service';
+
+import { FunnelAbandonReason, FunnelDefinition, FunnelStep } from '../types';
+
+import { JsonSetting } from './json-setting';
+
+// Default max delay between two steps (in minutes)
+const DEFAULT_FUNNEL_TIMEOUT = 60;
+
+export type FunnelProgress = {
+  funnel: FunnelDefinition;
+  subscriber: Subscriber;
+  channel: string;
+  // Index of the last step reached
+  step: number;
+  startedAt: Date;
+  lastStepAt: Date;
+};
+
+export type FunnelCallbacks = {
+  onStep: (progress: FunnelProgress) => Promise<unknown>;
+  onConverted: (progress: FunnelProgress) => Promise<unknown>;
+  onAbandoned: (
+    progress: FunnelProgress,
+    reason: FunnelAbandonReason,
+    abandonedAt: Date,
+  ) => Promise<unknown>;
+};
+
+/**
+ * Tracks the progress of each subscriber through the funnels declared in the settings.
+ * A subscriber enters a funnel when reaching its first step, moves forward each time the
+ * next step is reached and converts on the last one. The funnel is abandoned when the
+ * subscriber hits a fallback, gets handed over to a human or stays too long on a step.
+ */
+export class FunnelTracker {
+  // Progresses by subscriber id, then by funnel name
+  private readonly progresses = new Map<string, Map<string, FunnelProgress>>();
+
+  private readonly funnels: JsonSetting<FunnelDefinition[]>;
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly callbacks: FunnelCallbacks,
+    private readonly logger: LoggerService,
+  ) {
+    this.funnels = new JsonSetting('funnels', [], logger, (funnels) =>
+      this.normalize(funnels),
+    );
+  }
+
+  /**
+   * Validates the parsed funnels. Invalid funnels are ignored.
+   *
+   * @param funnels - The parsed JSON funnels.
+   *
+   * @returns The valid funnels.
+   */
+  private normalize(funnels: any): FunnelDefinition[] {
+    if (!Array.isArray(funnels)) {
+      throw new Error('Funnels should be an array');
+    }
+    return funnels.filter((funnel: FunnelDefinition) => {
+      const isValid =
+        funnel &&
+        typeof funnel.name === 'string' &&
+        Array.isArray(funnel.steps) &&
+        funnel.steps.length > 0;
+      if (!isValid) {
+        this.logger.warn('InfluxDB Service: Ignoring invalid funnel', funnel);
+      }
+      return isValid;
+    });
+  }
+
+  /**
+   * Checks whether a block matches a funnel step.
+   *
+   * @param step - The funnel step.
+   * @param block - The triggered block.
+   * @param subject - The subject of the triggered block.
+   *
+   * @returns True if the block matches all the criteria of the step.
+   */
+  private matches(step: FunnelStep, block: BlockFull | Block, subject: string) {
+    if (!step || (!step.name && !step.id && !step.subject)) {
+      return false;
+    }
+    return (
+      (step.name === undefined || step.name === block.name) &&
+      (step.id === undefined || step.id === block.id) &&
+      (step.subject === undefined || step.subject === subject)
+    );
+  }
+
+  /**
+   * Returns the date at which a funnel progress expires, that is once the subscriber stayed
+   * on the last reached step for the funnel timeout.
+   *
+   * @param progress - The funnel progress.
+   *
+   * @returns The expiry date.
+   */
+  private getExpiryDate({ funnel, lastStepAt }: FunnelProgress) {
+    const timeout = (funnel.timeout || DEFAULT_FUNNEL_TIMEOUT) * 60 * 1000;
+    return new Date(lastStepAt.getTime() + timeout);
+  }
+
+  /**
+   * Checks whether a subscriber stayed too long on a funnel step.
+   *
+   * @param progress - The funnel progress.
+   * @param now - The reference date.
+   *
+   * @returns True if the funnel progress has expired.
+   */
+  private isExpired(progress: FunnelProgress, now = new Date()) {
+    return now.getTime() > this.getExpiryDate(progress).getTime();
+  }
+
+  /**
+   * Records a triggered block, moving the subscriber forward in the funnels it matches.
+   *
+   * @param raw - The funnels JSON, as stored in the settings.
+   * @param subscriber - The subscriber.
+   * @param channel - The channel name.
+   * @param block - The triggered block.
+   * @param subject - The subject of the triggered block.
+   * @param at - The date at which the block got triggered.
+   */
+  async trackBlock(
+    raw: string,
+    subscriber: Subscriber,
+    channel: string,
+    block: BlockFull | Block,
+    subject: string,
+    at = new Date(),
+  ) {
+    const progresses =
+      this.progresses.get(subscriber.id) || new Map<string, FunnelProgress>();
+    this.progresses.set(subscriber.id, progresses);
+
+    for (const funnel of this.funnels.parse(raw)) {
+      let progress = progresses.get(funnel.name);
+
+      if (progress && this.isExpired(progress, at)) {
+        await this.end(progress, 'timeout', this.getExpiryDate(progress));
+        progress = null;
+      }
+
+      if (progress) {
+        if (
+          !this.matches(
+            progress.funnel.steps[progress.step + 1],
+            block,
+            subject,
+          )
+        ) {
+          continue;
+        }
+        progress.step++;
+        progress.lastStepAt = at;
+      } else if (this.matches(funnel.steps[0], block, subject)) {
+        progress = {
+          funnel,
+          subscriber,
+          channel,
+          step: 0,
+          startedAt: at,
+          lastStepAt: at,
+        };
+        progresses.set(funnel.name, progress);
+      } else {
+        continue;
+      }
+
+      await this.callbacks.onStep(progress);
+      if (progress.step === progress.funnel.steps.length - 1) {
+        await this.end(progress);
+      }
+    }
+
+    this.cleanup(subscriber.id);
+  }
+
+  /**
+   * Ends a funnel progress, either converted or abandoned.
+   *
+   * @param progress - The funnel progress.
+   * @param reason - The abandonment reason, if the funnel was not completed.
+   * @param abandonedAt - The date at which the funnel got abandoned, if it was not completed.
+   */
+  private async end(
+    progress: FunnelProgress,
+    reason?: FunnelAbandonReason,
+    abandonedAt?: Date,
+  ) {
+    this.progresses.get(progress.subscriber.id)?.delete(progress.funnel.name);
+
+    if (reason) {
+      await this.callbacks.onAbandoned(progress, reason, abandonedAt);
+    } else {
+      await this.callbacks.onConverted(progress);
+    }
+  }
+
+  /**
+   * Abandons all the funnels a subscriber is going through.
+   *
+   * @param subscriberId - The subscriber id.
+   * @param reason - The abandonment reason.
+   * @param at - The date at which the funnels got abandoned.
+   */
+  async abandon(
+    subscriberId: string,
+    reason: FunnelAbandonReason,
+    at = new Date(),
+  ) {
+    const progresses = [...(this.progresses.get(subscriberId)?.values() || [])];
+    await Promise.all(
+      progresses.map((progress) => this.end(progress, reason, at)),
+    );
+    this.cleanup(subscriberId);
+  }
+
+  /**
+   * Forgets a subscriber once it is not going through any funnel anymore.
+   *
+   * @param subscriberId - The subscriber id.
+   */
+  private cleanup(subscriberId: string) {
+    if (!this.progresses.get(subscriberId)?.size) {
+      this.progresses.delete(subscriberId);
+    }
+  }
+
+  /**
+   * Abandons all the funnels where subscribers stayed too long on a step, as of their expiry.
+   */
+  async sweep() {
+    const now = new Date();
+    const expired = [...this.progresses.values()]
+      .flatMap((progresses) => [...progresses.values()])
+      .filter((progress) => this.isExpired(progress, now));
+    await Promise.all(
+      expired.map((progress) =>
+        this.end(progress, 'timeout', this.getExpiryDate(progress)),
+      ),
+    );
+    expired.forEach(({ subscriber }) => this.cleanup(subscriber.id));
+  }
+
+  /**
+   * Periodically abandons the expired funnels.
+   *
+   * @param interval - Delay between two sweeps in milliseconds.
+   */
+  start(interval: number) {
+    this.stop();
+    this.sweepTimer = setInterval(
+      () =>
+        this.sweep().catch((err) => {
+          this.logger.error(
+            'InfluxDB Service: Unable to abandon the idle funnels',
+            err,
+          );
+        }),
+      interval,
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the periodic sweep. Ongoing funnels are kept as is.
+   */
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
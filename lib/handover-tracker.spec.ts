@@ -0,0 +1,74 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+
+import { Handover, HandoverTracker } from './handover-tracker';
+import { createLoggerMock } from './test/mocks';
+
+describe('HandoverTracker', () => {
+  const subscriber = { id: 'subscriber-1' } as Subscriber;
+  const now = Date.now();
+  const ago = (minutes: number) => new Date(now - minutes * 60 * 1000);
+  let resolved: Handover[];
+  let tracker: HandoverTracker;
+
+  beforeEach(() => {
+    resolved = [];
+    tracker = new HandoverTracker(
+      async (handover) => resolved.push({ ...handover }),
+      createLoggerMock(),
+    );
+  });
+
+  it('should correlate the intervention, the agent replies and the handback', async () => {
+    tracker.handover(subscriber, 'web', ago(20));
+    tracker.open(subscriber.id, ago(18));
+    tracker.agentMessage(subscriber.id, ago(15));
+    tracker.agentMessage(subscriber.id, ago(10));
+    tracker.handback(subscriber.id, ago(5));
+    // Messages sent after the handback are not counted
+    tracker.agentMessage(subscriber.id, ago(4));
+    await tracker.botBlock(subscriber.id);
+
+    expect(resolved).toEqual([
+      expect.objectContaining({
+        channel: 'web',
+        openedAt: ago(18),
+        firstAgentReplyAt: ago(15),
+        agentMessages: 2,
+        handbackAt: ago(5),
+        returnedToBot: true,
+      }),
+    ]);
+  });
+
+  it('should not resolve a handover before the handback', async () => {
+    tracker.handover(subscriber, 'web');
+    await tracker.botBlock(subscriber.id);
+    await tracker.sweep();
+    expect(resolved).toEqual([]);
+  });
+
+  it('should resolve the handovers that did not return to the bot in time', async () => {
+    tracker.handover(subscriber, 'web', ago(60));
+    tracker.handback(subscriber.id, ago(45));
+    await tracker.sweep();
+    expect(resolved).toEqual([
+      expect.objectContaining({ returnedToBot: false }),
+    ]);
+  });
+
+  it('should forget the handovers that never got handed back', async () => {
+    tracker.handover(subscriber, 'web', ago(8 * 24 * 60));
+    await tracker.sweep();
+    tracker.handback(subscriber.id);
+    await tracker.botBlock(subscriber.id);
+    expect(resolved).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+import { LoggerService } from '@/logger/logger.service';
+
+// Delay after a handback during which the conversation may return to a bot block (in ms)
+const RETURN_TO_BOT_DELAY = 30 * 60 * 1000;
+
+// Delay after which a handover that never got handed back is forgotten (in ms)
+const MAX_HANDOVER_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export type Handover = {
+  subscriber: Subscriber;
+  channel: string;
+  handoverAt: Date;
+  // When the intervention got opened by an agent
+  openedAt: Date | null;
+  firstAgentReplyAt: Date | null;
+  agentMessages: number;
+  handbackAt: Date | null;
+  // Whether a bot block got triggered after the handback
+  returnedToBot: boolean;
+};
+
+/**
+ * Correlates, per subscriber, a handover with the matching intervention, the agent replies
+ * and the handback. A handover is resolved once the conversation returns to a bot block
+ * after the handback, or once the return delay has elapsed without any bot block.
+ */
+export class HandoverTracker {
+  private readonly handovers = new Map<string, Handover>();
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly onResolved: (handover: Handover) => Promise<unknown>,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Records a handover of the conversation to a human agent.
+   *
+   * @param subscriber - The subscriber.
+   * @param channel - The channel name.
+   * @param at - The handover date.
+   */
+  handover(subscriber: Subscriber, channel: string, at = new Date()) {
+    this.handovers.set(subscriber.id, {
+      subscriber,
+      channel,
+      handoverAt: at,
+      openedAt: null,
+      firstAgentReplyAt: null,
+      agentMessages: 0,
+      handbackAt: null,
+      returnedToBot: false,
+    });
+  }
+
+  /**
+   * Records the opening of the intervention by an agent.
+   *
+   * @param subscriberId - The subscriber id.
+   * @param at - The opening date.
+   */
+  open(subscriberId: string, at = new Date()) {
+    const handover = this.handovers.get(subscriberId);
+    if (handover && !handover.openedAt) {
+      handover.openedAt = at;
+    }
+  }
+
+  /**
+   * Records a message sent by an agent to the subscriber.
+   *
+   * @param subscriberId - The subscriber id.
+   * @param at - The message date.
+   */
+  agentMessage(subscriberId: string, at = new Date()) {
+    const handover = this.handovers.get(subscriberId);
+    if (handover && !handover.handbackAt) {
+      handover.firstAgentReplyAt = handover.firstAgentReplyAt || at;
+      handover.agentMessages++;
+    }
+  }
+
+  /**
+   * Records the handback of the conversation to the bot.
+   *
+   * @param subscriberId - The subscriber id.
+   * @param at - The handback date.
+   */
+  handback(subscriberId: string, at = new Date()) {
+    const handover = this.handovers.get(subscriberId);
+    if (handover && !handover.handbackAt) {
+      handover.handbackAt = at;
+    }
+  }
+
+  /**
+   * Records a bot block triggered for the subscriber, which resolves the handover
+   * if the conversation has been handed back.
+   *
+   * @param subscriberId - The subscriber id.
+   */
+  async botBlock(subscriberId: string) {
+    const handover = this.handovers.get(subscriberId);
+    if (handover && handover.handbackAt) {
+      handover.returnedToBot = true;
+      await this.resolve(handover);
+    }
+  }
+
+  /**
+   * Resolves a handover.
+   *
+   * @param handover - The handover to resolve.
+   */
+  private async resolve(handover: Handover) {
+    this.handovers.delete(handover.subscriber.id);
+    await this.onResolved(handover);
+  }
+
+  /**
+   * Resolves the handed back conversations that did not return to a bot block in time,
+   * and forgets the handovers that never got handed back, as they cannot be resolved.
+   */
+  async sweep() {
+    const now = Date.now();
+    const handovers = [...this.handovers.values()];
+    handovers
+      .filter(
+        ({ handoverAt, handbackAt }) =>
+          !handbackAt && handoverAt.getTime() < now - MAX_HANDOVER_AGE,
+      )
+      .forEach(({ subscriber }) => this.handovers.delete(subscriber.id));
+
+    const expired = handovers.filter(
+      ({ handbackAt }) =>
+        handbackAt && handbackAt.getTime() < now - RETURN_TO_BOT_DELAY,
+    );
+    await Promise.all(expired.map((handover) => this.resolve(handover)));
+  }
+
+  /**
+   * Periodically resolves the expired handovers.
+   *
+   * @param interval - Delay between two sweeps in milliseconds.
+   */
+  start(interval: number) {
+    this.stop();
+    this.sweepTimer = setInterval(
+      () =>
+        this.sweep().catch((err) => {
+          this.logger.error(
+            'InfluxDB Service: Unable to resolve the expired handovers',
+            err,
+          );
+        }),
+      interval,
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the periodic sweep.
+   */
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { LoggerService } from '@/logger/logger.service';
+
+/**
+ * A setting holding JSON (rules, definitions, ...) edited as text from the admin.
+ * The parsed value is cached until the text changes. Invalid JSON is reported and
+ * replaced by the default value so that analytics keep flowing.
+ */
+export class JsonSetting<T> {
+  private raw: string | null = null;
+
+  private value: T;
+
+  constructor(
+    private readonly label: string,
+    private readonly defaultValue: T,
+    private readonly logger: LoggerService,
+    // Validates and normalizes the parsed JSON, throws if it is invalid
+    private readonly normalize: (value: any) => T = (value) => value,
+  ) {
+    this.value = defaultValue;
+  }
+
+  /**
+   * Parses the setting text, or returns the cached value if the text did not change.
+   *
+   * @param raw - The setting text.
+   *
+   * @returns The parsed value, or the default value if the text is empty or invalid.
+   */
+  parse(raw: string): T {
+    if (raw === this.raw) {
+      return this.value;
+    }
+
+    this.raw = raw;
+    try {
+      this.value = raw ? this.normalize(JSON.parse(raw)) : this.defaultValue;
+    } catch (err) {
+      this.logger.error(
+        `InfluxDB Service: Unable to parse the "${this.label}" setting`,
+        err,
+      );
+      this.value = this.defaultValue;
+    }
+    return this.value;
+  }
+}
@@ -0,0 +1,54 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Point, WritePrecisionType } from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { getTimeConverter, Sink } from './sink';
+
+/**
+ * Prints the points, serialized as line protocol, through the logger instead of sending them
+ * to InfluxDB. Nothing is buffered, which makes it handy to check the tags and fields of the
+ * points while developing.
+ */
+export class LogSink implements Sink {
+  constructor(
+    private readonly precision: WritePrecisionType,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async ping() {}
+
+  async checkAccess() {}
+
+  write(point: Point) {
+    const line = point.toLineProtocol({
+      convertTime: getTimeConverter(this.precision),
+    });
+    if (line) {
+      this.logger.log(`InfluxDB Service: ${line}`);
+    }
+  }
+
+  async writeLines(lines: string[]) {
+    lines.forEach((line) => this.logger.log(`InfluxDB Service: ${line}`));
+  }
+
+  getQueueDepth() {
+    return 0;
+  }
+
+  configure() {}
+
+  async flush() {
+    return [];
+  }
+
+  async close() {}
+}
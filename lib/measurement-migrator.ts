@@ -0,0 +1,81 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { flux, InfluxDB } from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { MigrationReport } from '../types';
+
+import { SCHEMA_VERSION } from './measurements';
+
+export type MeasurementRename = {
+  from: string;
+  to: string;
+};
+
+/**
+ * Copies the points of existing measurements into measurements named after another naming
+ * strategy, tagging them with the current schema version. The source measurements are kept
+ * untouched so that existing dashboards keep working until they are updated. Copying the same
+ * measurement twice overwrites the previously copied points, hence the migration can be re-run.
+ */
+export class MeasurementMigrator {
+  constructor(
+    private readonly client: InfluxDB,
+    private readonly organization: string,
+    private readonly bucket: string,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Copies all the points of a measurement into another one.
+   *
+   * @param rename - The source and target measurement names.
+   *
+   * @returns A report of the copied points.
+   */
+  private async copy({
+    from,
+    to,
+  }: MeasurementRename): Promise<MigrationReport> {
+    const queryApi = this.client.getQueryApi(this.organization);
+    // Every point has a single `value` field, which is used to count the copied points
+    const rows = await queryApi.collectRows<{ _value: number }>(
+      flux`from(bucket: ${this.bucket})
+  |> range(start: 0)
+  |> filter(fn: (r) => r._measurement == ${from})
+  |> set(key: "_measurement", value: ${to})
+  |> set(key: "schema_version", value: ${SCHEMA_VERSION})
+  |> to(bucket: ${this.bucket}, org: ${this.organization})
+  |> filter(fn: (r) => r._field == "value")
+  |> group()
+  |> count()`,
+    );
+    return { from, to, points: rows.length > 0 ? rows[0]._value : 0 };
+  }
+
+  /**
+   * Copies the points of the given measurements, one measurement at a time.
+   *
+   * @param renames - The source and target measurement names.
+   *
+   * @returns A report of the copied points per measurement.
+   */
+  async migrate(renames: MeasurementRename[]) {
+    const reports: MigrationReport[] = [];
+    for (const rename of renames.filter(({ from, to }) => from !== to)) {
+      const report = await this.copy(rename);
+      this.logger.log(
+        `InfluxDB Service: Copied ${report.points} point(s) from "${report.from}" to "${report.to}"`,
+      );
+      reports.push(report);
+    }
+    return reports;
+  }
+}
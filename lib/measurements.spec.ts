@@ -0,0 +1,53 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import {
+  getMeasurementName,
+  getMeasurementNames,
+  Measurement,
+} from './measurements';
+
+describe('getMeasurementName', () => {
+  it('should keep the historical names with the legacy strategy', () => {
+    expect(getMeasurementName(Measurement.messageSent, 'legacy')).toBe(
+      'Event - message sent',
+    );
+    expect(getMeasurementName('My Plugin', 'legacy')).toBe('My Plugin');
+  });
+
+  it('should name the helper measurements after their key in snake case', () => {
+    expect(getMeasurementName(Measurement.messageSent, 'snake_case')).toBe(
+      'message_sent',
+    );
+    expect(getMeasurementName(Measurement.localFallback, 'snake_case')).toBe(
+      'local_fallback',
+    );
+  });
+
+  it('should snake case the other measurements', () => {
+    expect(getMeasurementName('My Plugin - Order', 'snake_case')).toBe(
+      'my_plugin_order',
+    );
+    expect(getMeasurementName('orderPlaced', 'snake_case')).toBe(
+      'order_placed',
+    );
+  });
+
+  it('should prefix the names with the prefix strategy', () => {
+    expect(getMeasurementName(Measurement.block, 'prefix', 'hexabot_')).toBe(
+      'hexabot_block',
+    );
+  });
+});
+
+describe('getMeasurementNames', () => {
+  it('should name all the helper measurements by key', () => {
+    const names = getMeasurementNames('prefix', 'bot_');
+    expect(Object.keys(names)).toEqual(Object.keys(Measurement));
+    expect(names.messageReceived).toBe('bot_message_received');
+  });
+});
@@ -0,0 +1,100 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import slug from 'slug';
+
+/**
+ * Names of the measurements written by the helper.
+ */
+export const Measurement = {
+  messageSent: `Event - ${slug('Message sent', ' ')}`,
+  messageReceived: `Event - ${slug('Message received', ' ')}`,
+  block: 'Block',
+  handover: 'Handover',
+  handback: 'Handback',
+  localFallback: 'Local Fallback',
+  globalFallback: 'Global Fallback',
+  interventionOpened: 'Intervention Opened',
+  plugin: 'Plugin',
+  stats: 'Stats',
+  sessionStart: 'Session start',
+  sessionEnd: 'Session end',
+  funnelStep: 'Funnel step',
+  funnelConverted: 'Funnel converted',
+  funnelAbandoned: 'Funnel abandoned',
+  handoverResolved: 'Handover resolved',
+  // Not written anymore, kept to leave the points written by earlier versions out of the analytics
+  healthCheck: 'Health check',
+  nlp: 'NLP',
+} as const;
+
+export type MeasurementKey = keyof typeof Measurement;
+
+export const NAMING_STRATEGIES = ['legacy', 'snake_case', 'prefix'] as const;
+
+export type NamingStrategy = (typeof NAMING_STRATEGIES)[number];
+
+// Version of the points schema, written as the `schema_version` tag of every point
+export const SCHEMA_VERSION = '1';
+
+/**
+ * Converts a measurement key or name to snake case (e.g. `localFallback` to `local_fallback`).
+ *
+ * @param name - The measurement key or name.
+ *
+ * @returns The snake cased name.
+ */
+const toSnakeCase = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+
+/**
+ * Returns the name of a measurement according to the naming strategy. The helper measurements
+ * are named after their key (e.g. `Event - message sent` becomes `message_sent`), any other
+ * measurement (plugins, other extensions) is snake cased.
+ *
+ * @param name - The legacy measurement name.
+ * @param strategy - The naming strategy.
+ * @param prefix - The prefix of the measurement names, used by the `prefix` strategy.
+ *
+ * @returns The measurement name to write.
+ */
+export const getMeasurementName = (
+  name: string,
+  strategy: NamingStrategy,
+  prefix = '',
+) => {
+  if (!strategy || strategy === 'legacy') {
+    return name;
+  }
+
+  const key = (Object.keys(Measurement) as MeasurementKey[]).find(
+    (key) => Measurement[key] === name,
+  );
+  const snakeCased = toSnakeCase(key || name);
+  return strategy === 'prefix' ? `${prefix}${snakeCased}` : snakeCased;
+};
+
+/**
+ * Returns the names of all the helper measurements according to the naming strategy.
+ *
+ * @param strategy - The naming strategy.
+ * @param prefix - The prefix of the measurement names, used by the `prefix` strategy.
+ *
+ * @returns The measurement names by key.
+ */
+export const getMeasurementNames = (strategy: NamingStrategy, prefix = '') =>
+  Object.fromEntries(
+    Object.entries(Measurement).map(([key, name]) => [
+      key,
+      getMeasurementName(name, strategy, prefix),
+    ]),
+  ) as Record<MeasurementKey, string>;
@@ -0,0 +1,113 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import EventWrapper from '@/channel/lib/EventWrapper';
+import { LoggerService } from '@/logger/logger.service';
+
+import { NlpFallback } from '../types';
+
+// Delay after which a received message is considered handled without fallback (in ms)
+const RESOLUTION_DELAY = 60 * 1000;
+
+type PendingMessage = {
+  event: EventWrapper<any, any>;
+  receivedAt: number;
+};
+
+/**
+ * Holds the received messages until their outcome is known, i.e. whether they triggered
+ * a block or hit a (global or local) fallback, so that their NLP can be logged along with it.
+ */
+export class NlpTracker {
+  // Pending messages by message id
+  private readonly pending = new Map<string, PendingMessage>();
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly onResolved: (
+      event: EventWrapper<any, any>,
+      fallback: NlpFallback,
+      receivedAt: Date,
+    ) => Promise<unknown>,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Records a received message, until its outcome is known.
+   *
+   * @param event - The event wrapper of the received message.
+   */
+  receive(event: EventWrapper<any, any>) {
+    const messageId = event.getId();
+    if (messageId && !this.pending.has(messageId)) {
+      this.pending.set(messageId, { event, receivedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Records the outcome of a received message.
+   *
+   * @param messageId - The received message id.
+   * @param fallback - The fallback hit by the message, 'none' if it triggered a block.
+   */
+  async resolve(messageId: string, fallback: NlpFallback) {
+    const message = this.pending.get(messageId);
+    if (message) {
+      this.pending.delete(messageId);
+      await this.onResolved(
+        message.event,
+        fallback,
+        new Date(message.receivedAt),
+      );
+    }
+  }
+
+  /**
+   * Resolves the messages that did not trigger any block nor fallback in time.
+   */
+  async sweep() {
+    const expiresAt = Date.now() - RESOLUTION_DELAY;
+    const expired = [...this.pending.entries()].filter(
+      ([, { receivedAt }]) => receivedAt < expiresAt,
+    );
+    await Promise.all(
+      expired.map(([messageId]) => this.resolve(messageId, 'none')),
+    );
+  }
+
+  /**
+   * Periodically resolves the expired messages.
+   *
+   * @param interval - Delay between two sweeps in milliseconds.
+   */
+  start(interval: number) {
+    this.stop();
+    this.sweepTimer = setInterval(
+      () =>
+        this.sweep().catch((err) => {
+          this.logger.error(
+            'InfluxDB Service: Unable to log the pending NLP',
+            err,
+          );
+        }),
+      interval,
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the periodic sweep.
+   */
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+
+import { PointRouter, RoutedPoint } from './point-router';
+import { createLoggerMock } from './test/mocks';
+
+describe('PointRouter', () => {
+  const rules = JSON.stringify([
+    { match: { channel: 'web', subject: 'sales' }, bucket: 'sales' },
+    { match: { label: 'vip' }, organization: 'vip', bucket: 'vip' },
+    { match: { measurement: 'Block', category: 'faq' }, bucket: 'faq' },
+    { match: { channel: 'web' }, organization: 'web' },
+  ]);
+  const point = (
+    tags: RoutedPoint['tags'],
+    measurement = 'Event - message received',
+    subscriber?: Subscriber,
+  ): RoutedPoint => ({ measurement, tags, subjectTag: 'subject', subscriber });
+  let router: PointRouter;
+
+  beforeEach(() => {
+    router = new PointRouter(createLoggerMock());
+  });
+
+  it('should route the points to the destination of the first matching rule', () => {
+    expect(
+      router.route(point({ channel: 'web', subject: 'sales' }), rules),
+    ).toEqual({ organization: undefined, bucket: 'sales' });
+    expect(
+      router.route(point({ channel: 'web', subject: 'support' }), rules),
+    ).toEqual({ organization: 'web', bucket: undefined });
+    expect(
+      router.route(point({ channel: 'api', category: 'faq' }, 'Block'), rules),
+    ).toEqual({ organization: undefined, bucket: 'faq' });
+  });
+
+  it('should match the subscriber labels by id or name', () => {
+    const byName = { labels: [{ id: 'label-1', name: 'vip' }] };
+    const byId = { labels: ['vip'] };
+    [byName, byId].forEach((subscriber) => {
+      expect(
+        router.route(
+          point(
+            { channel: 'api' },
+            'Block',
+            subscriber as unknown as Subscriber,
+          ),
+          rules,
+        ),
+      ).toEqual({ organization: 'vip', bucket: 'vip' });
+    });
+  });
+
+  it('should leave the points matching no rule to the default destination', () => {
+    expect(router.route(point({ channel: 'api' }), rules)).toBeNull();
+    expect(router.route(point({ channel: 'web' }), '')).toBeNull();
+  });
+
+  it('should ignore the invalid rules', () => {
+    const invalid = JSON.stringify([
+      { bucket: 'no match' },
+      { match: { channel: 'web' } },
+      { match: { channel: 'web' }, bucket: 'web' },
+    ]);
+    expect(router.route(point({ channel: 'web' }), invalid)).toEqual({
+      organization: undefined,
+      bucket: 'web',
+    });
+    expect(router.route(point({ channel: 'web' }), '[')).toBeNull();
+  });
+
+  it('should list the destinations of all the rules', () => {
+    expect(router.getDestinations(rules)).toEqual([
+      { organization: undefined, bucket: 'sales' },
+      { organization: 'vip', bucket: 'vip' },
+      { organization: undefined, bucket: 'faq' },
+      { organization: 'web', bucket: undefined },
+    ]);
+  });
+});
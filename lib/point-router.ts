@@ -0,0 +1,132 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+import { LoggerService } from '@/logger/logger.service';
+
+import { InfluxTags, RoutingDestination, RoutingRule } from '../types';
+
+import { JsonSetting } from './json-setting';
+
+export type RoutedPoint = {
+  // Measurement name, as written with the legacy naming strategy
+  measurement: string;
+  tags: InfluxTags;
+  // Tag holding the block subjects
+  subjectTag: string;
+  subscriber?: Subscriber;
+};
+
+/**
+ * Picks the destination (organization and bucket) of each point, based on routing rules
+ * matching its channel, measurement, subject, category or subscriber labels.
+ * Rules are evaluated in order and the first matching one wins, points matching no rule
+ * go to the configured organization and bucket.
+ */
+export class PointRouter {
+  private readonly rules: JsonSetting<RoutingRule[]>;
+
+  constructor(private readonly logger: LoggerService) {
+    this.rules = new JsonSetting('routing_rules', [], logger, (rules) =>
+      this.normalize(rules),
+    );
+  }
+
+  /**
+   * Validates the parsed rules, invalid rules are ignored.
+   *
+   * @param rules - The parsed JSON rules.
+   *
+   * @returns The valid rules.
+   */
+  private normalize(rules: any): RoutingRule[] {
+    if (!Array.isArray(rules)) {
+      throw new Error('Routing rules should be an array');
+    }
+    return rules.filter((rule: RoutingRule) => {
+      const isValid =
+        rule &&
+        !!rule.match &&
+        typeof rule.match === 'object' &&
+        (typeof rule.organization === 'string' ||
+          typeof rule.bucket === 'string');
+      if (!isValid) {
+        this.logger.warn(
+          'InfluxDB Service: Ignoring invalid routing rule',
+          rule,
+        );
+      }
+      return isValid;
+    });
+  }
+
+  /**
+   * Lists the label ids of a subscriber, along with their names when labels are populated.
+   *
+   * @param subscriber - The subscriber.
+   *
+   * @returns The subscriber label ids and names.
+   */
+  private getLabels(subscriber?: Subscriber): string[] {
+    return (subscriber?.labels || []).flatMap((label: any) =>
+      label && typeof label === 'object' ? [label.id, label.name] : [label],
+    );
+  }
+
+  /**
+   * Checks whether a point matches all the criteria of a rule.
+   *
+   * @param point - The point to route.
+   * @param rule - The routing rule.
+   *
+   * @returns True if the point matches the rule.
+   */
+  private matches(
+    { measurement, tags, subjectTag, subscriber }: RoutedPoint,
+    { match }: RoutingRule,
+  ) {
+    return (
+      (match.channel === undefined || match.channel === tags.channel) &&
+      (match.measurement === undefined || match.measurement === measurement) &&
+      (match.subject === undefined || match.subject === tags[subjectTag]) &&
+      (match.category === undefined || match.category === tags.category) &&
+      (match.label === undefined ||
+        this.getLabels(subscriber).includes(match.label))
+    );
+  }
+
+  /**
+   * Picks the destination of a point.
+   *
+   * @param point - The point to route.
+   * @param raw - The JSON array of rules, as stored in the settings.
+   *
+   * @returns The destination of the first matching rule, or null if none matches.
+   */
+  route(point: RoutedPoint, raw: string): RoutingDestination | null {
+    const rule = this.rules
+      .parse(raw)
+      .find((rule) => this.matches(point, rule));
+    return rule
+      ? { organization: rule.organization, bucket: rule.bucket }
+      : null;
+  }
+
+  /**
+   * Lists the destinations the rules may route points to.
+   *
+   * @param raw - The JSON array of rules, as stored in the settings.
+   *
+   * @returns The destinations of all the rules.
+   */
+  getDestinations(raw: string): RoutingDestination[] {
+    return this.rules
+      .parse(raw)
+      .map(({ organization, bucket }) => ({ organization, bucket }));
+  }
+}
@@ -0,0 +1,34 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { applyPrivacy } from './privacy';
+
+describe('applyPrivacy', () => {
+  it('should hash values with the salt, keeping them comparable', () => {
+    const hashed = applyPrivacy('john', 'hash', 'salt');
+    expect(hashed).toMatch(/^[0-9a-f]{64}$/);
+    expect(applyPrivacy('john', 'hash', 'salt')).toBe(hashed);
+    expect(applyPrivacy('jane', 'hash', 'salt')).not.toBe(hashed);
+    expect(applyPrivacy('john', 'hash', 'other')).not.toBe(hashed);
+  });
+
+  it('should omit the values to hash while no salt is set', () => {
+    expect(applyPrivacy('john', 'hash', '')).toBeNull();
+    expect(applyPrivacy('john', 'hash', undefined)).toBeNull();
+  });
+
+  it('should truncate, omit or keep values', () => {
+    expect(applyPrivacy('john', 'truncate', 'salt')).toBe('jo');
+    expect(applyPrivacy('john', 'omit', 'salt')).toBeNull();
+    expect(applyPrivacy('john', 'keep', 'salt')).toBe('john');
+  });
+
+  it('should omit empty values whatever the mode', () => {
+    expect(applyPrivacy('', 'keep', 'salt')).toBeNull();
+    expect(applyPrivacy(undefined, 'hash', 'salt')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { createHmac } from 'crypto';
+
+export const PRIVACY_MODES = ['keep', 'hash', 'truncate', 'omit'] as const;
+
+export type PrivacyMode = (typeof PRIVACY_MODES)[number];
+
+// Number of characters kept when a value is truncated
+const TRUNCATE_LENGTH = 2;
+
+/**
+ * Applies a privacy mode to a personal value before it gets stored in InfluxDB.
+ *
+ * - `keep`: the value is stored as is.
+ * - `hash`: the value is replaced by its salted (HMAC-SHA256) hash, which keeps values comparable.
+ *   The value is omitted while no salt is set, as unsalted hashes of personal data are easily reversed.
+ * - `truncate`: only the first characters of the value are kept.
+ * - `omit`: the value is not stored at all.
+ *
+ * @param value - The personal value.
+ * @param mode - The privacy mode to apply.
+ * @param salt - The secret salt used to hash values, hashing is refused when empty.
+ *
+ * @returns The value to store, or null if it should be omitted.
+ */
+export function applyPrivacy(
+  value: string,
+  mode: PrivacyMode,
+  salt: string,
+): string | null {
+  if (!value) {
+    return null;
+  }
+
+  switch (mode) {
+    case 'hash':
+      return salt
+        ? createHmac('sha256', salt).update(value).digest('hex')
+        : null;
+    case 'truncate':
+      return value.substring(0, TRUNCATE_LENGTH);
+    case 'omit':
+      return null;
+    case 'keep':
+    default:
+      return value;
+  }
+}
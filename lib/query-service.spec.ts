@@ -0,0 +1,146 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { QueryApi } from '@influxdata/influxdb-client';
+
+import { getMeasurementNames } from './measurements';
+import { InfluxdbQueryService } from './query-service';
+
+// Hexabot is not a dependency of the helper, only its stats types are needed
+jest.mock(
+  '@/analytics/schemas/bot-stats.schema',
+  () => ({
+    BotStatsType: {
+      new_users: 'new_users',
+      returning_users: 'returning_users',
+    },
+  }),
+  { virtual: true },
+);
+
+describe('InfluxdbQueryService', () => {
+  const range = {
+    start: new Date('2024-06-01T00:00:00Z'),
+    stop: new Date('2024-06-02T00:00:00Z'),
+  };
+  const measurements = getMeasurementNames('legacy');
+  let collectRows: jest.Mock;
+  let service: InfluxdbQueryService;
+
+  const getQuery = () => collectRows.mock.calls[0][0].toString();
+
+  beforeEach(() => {
+    collectRows = jest.fn().mockResolvedValue([]);
+    service = new InfluxdbQueryService(
+      { collectRows } as unknown as QueryApi,
+      'hexabot',
+      measurements,
+    );
+  });
+
+  it('should query the value of the measurements, weighted by their sampling rate', async () => {
+    await service.getMessageCounts(range);
+
+    const query = getQuery();
+    expect(query).toContain('from(bucket: "hexabot")');
+    expect(query).toContain(
+      'range(start: 2024-06-01T00:00:00.000Z, stop: 2024-06-02T00:00:00.000Z)',
+    );
+    expect(query).toContain(
+      `set: ["${measurements.messageReceived}","${measurements.messageSent}"]`,
+    );
+    expect(query).toContain('1.0 / r.sample_rate');
+  });
+
+  it('should count the received and sent messages per channel', async () => {
+    collectRows.mockResolvedValue([
+      {
+        _measurement: measurements.messageReceived,
+        channel: 'web',
+        _value: 10,
+      },
+      { _measurement: measurements.messageSent, channel: 'web', _value: 12 },
+      {
+        _measurement: measurements.messageSent,
+        channel: 'messenger',
+        _value: 3,
+      },
+    ]);
+
+    expect(await service.getMessageCounts(range)).toEqual([
+      { channel: 'web', received: 10, sent: 12 },
+      { channel: 'messenger', received: 0, sent: 3 },
+    ]);
+  });
+
+  it('should compute the fallback rate over the received messages', async () => {
+    collectRows.mockResolvedValue([
+      {
+        _measurement: measurements.messageReceived,
+        channel: 'web',
+        _value: 20,
+      },
+      { _measurement: measurements.localFallback, channel: 'web', _value: 3 },
+      { _measurement: measurements.globalFallback, channel: 'web', _value: 2 },
+      { _measurement: measurements.globalFallback, channel: 'api', _value: 1 },
+    ]);
+
+    expect(await service.getFallbackRate(range)).toEqual([
+      {
+        channel: 'web',
+        received: 20,
+        local_fallbacks: 3,
+        global_fallbacks: 2,
+        rate: 0.25,
+      },
+      {
+        channel: 'api',
+        received: 0,
+        local_fallbacks: 0,
+        global_fallbacks: 1,
+        rate: 0,
+      },
+    ]);
+  });
+
+  it('should rank the block hits by the given tag', async () => {
+    collectRows.mockResolvedValue([
+      { category: 'faq', _value: 2 },
+      { category: 'order', _value: 5 },
+    ]);
+
+    expect(await service.getBlockHits(range, 'category')).toEqual([
+      { key: 'order', count: 5 },
+      { key: 'faq', count: 2 },
+    ]);
+    expect(getQuery()).toContain('group(columns: ["category"])');
+  });
+
+  it('should average the intervention delays per channel', async () => {
+    collectRows.mockResolvedValue([
+      { channel: 'web', count: 4, sum: 10 },
+      { channel: 'api', count: 0, sum: 0 },
+    ]);
+
+    expect(await service.getAverageInterventionDelay(range)).toEqual([
+      { channel: 'web', interventions: 4, average_delay: 2.5 },
+      { channel: 'api', interventions: 0, average_delay: 0 },
+    ]);
+  });
+
+  it('should count the new and returning users per channel', async () => {
+    collectRows.mockResolvedValue([
+      { type: 'new_users', channel: 'web', _value: 7 },
+      { type: 'returning_users', channel: 'web', _value: 4 },
+    ]);
+
+    expect(await service.getUserCounts(range)).toEqual([
+      { channel: 'web', new_users: 7, returning_users: 4 },
+    ]);
+    expect(getQuery()).toContain('set: ["new_users","returning_users"]');
+  });
+});
@@ -0,0 +1,239 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  flux,
+  ParameterizedQuery,
+  QueryApi,
+} from '@influxdata/influxdb-client';
+
+import { BotStatsType } from '@/analytics/schemas/bot-stats.schema';
+
+import {
+  BlockHits,
+  FallbackRate,
+  InterventionDelay,
+  MessageCounts,
+  QueryRange,
+  UserCounts,
+} from '../types';
+
+import { MeasurementKey } from './measurements';
+import { SAMPLED_FIELDS, WEIGHT_BY_SAMPLE_RATE } from './sampler';
+
+type Row = {
+  _measurement?: string;
+  _value: number;
+  [tag: string]: any;
+};
+
+/**
+ * Prebuilt Flux analytics over the measurements written by the helper.
+ * Every query is parameterized and returns typed results, so that other
+ * extensions do not need to know the underlying schema.
+ * Points are weighted by their sampling rate, hence counts estimate all the events
+ * (and may not be whole numbers) when some event families are sampled.
+ */
+export class InfluxdbQueryService {
+  constructor(
+    private readonly queryApi: QueryApi,
+    private readonly bucket: string,
+    // Measurement names, according to the naming strategy
+    private readonly measurements: Record<MeasurementKey, string>,
+  ) {}
+
+  /**
+   * Builds the common part of the queries : source bucket, time range and measurements.
+   *
+   * @param range - The time range to query.
+   * @param measurements - The measurements to keep.
+   *
+   * @returns The Flux query selecting the `value` field of the given measurements, weighted by their sampling rate.
+   */
+  private from(
+    { start, stop = new Date() }: QueryRange,
+    measurements: string[],
+  ) {
+    return flux`from(bucket: ${this.bucket})
+  |> range(start: ${start}, stop: ${stop})
+  |> filter(fn: (r) => contains(value: r._measurement, set: ${measurements}) and ${SAMPLED_FIELDS})
+  |> ${WEIGHT_BY_SAMPLE_RATE}`;
+  }
+
+  /**
+   * Runs a query and collects its rows.
+   *
+   * @param query - The Flux query.
+   *
+   * @returns The resulting rows.
+   */
+  private collect(query: ParameterizedQuery) {
+    return this.queryApi.collectRows<Row>(query);
+  }
+
+  /**
+   * Counts received and sent messages per channel.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns Message counts per channel.
+   */
+  async getMessageCounts(range: QueryRange): Promise<MessageCounts[]> {
+    const query = flux`${this.from(range, [
+      this.measurements.messageReceived,
+      this.measurements.messageSent,
+    ])}
+  |> group(columns: ["_measurement", "channel"])
+  |> sum()`;
+    const rows = await this.collect(query);
+
+    return Object.values(
+      rows.reduce(
+        (acc, { _measurement, _value, channel }) => {
+          acc[channel] = acc[channel] || { channel, received: 0, sent: 0 };
+          if (_measurement === this.measurements.messageReceived) {
+            acc[channel].received += _value;
+          } else {
+            acc[channel].sent += _value;
+          }
+          return acc;
+        },
+        {} as { [channel: string]: MessageCounts },
+      ),
+    );
+  }
+
+  /**
+   * Computes the fallback rate per channel, that is the ratio of local and global
+   * fallbacks over the received messages.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns Fallback counts and rate per channel.
+   */
+  async getFallbackRate(range: QueryRange): Promise<FallbackRate[]> {
+    const query = flux`${this.from(range, [
+      this.measurements.messageReceived,
+      this.measurements.localFallback,
+      this.measurements.globalFallback,
+    ])}
+  |> group(columns: ["_measurement", "channel"])
+  |> sum()`;
+    const rows = await this.collect(query);
+
+    const rates = rows.reduce(
+      (acc, { _measurement, _value, channel }) => {
+        acc[channel] = acc[channel] || {
+          channel,
+          received: 0,
+          local_fallbacks: 0,
+          global_fallbacks: 0,
+          rate: 0,
+        };
+        if (_measurement === this.measurements.messageReceived) {
+          acc[channel].received += _value;
+        } else if (_measurement === this.measurements.localFallback) {
+          acc[channel].local_fallbacks += _value;
+        } else {
+          acc[channel].global_fallbacks += _value;
+        }
+        return acc;
+      },
+      {} as { [channel: string]: FallbackRate },
+    );
+
+    return Object.values(rates).map((rate) => ({
+      ...rate,
+      rate: rate.received
+        ? (rate.local_fallbacks + rate.global_fallbacks) / rate.received
+        : 0,
+    }));
+  }
+
+  /**
+   * Counts how many times blocks have been triggered, grouped by subject or category.
+   *
+   * @param range - The time range to query.
+   * @param tagName - The tag to group by (the subject tag name or `category`).
+   *
+   * @returns Block hit counts, most triggered first.
+   */
+  async getBlockHits(range: QueryRange, tagName: string): Promise<BlockHits[]> {
+    const query = flux`${this.from(range, [this.measurements.block])}
+  |> group(columns: [${tagName}])
+  |> sum()`;
+    const rows = await this.collect(query);
+
+    return rows
+      .map((row) => ({ key: row[tagName], count: row._value }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Computes the average delay between the assignment of a conversation and its
+   * opening by an agent, per channel.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns Intervention counts and average delay (in minutes) per channel.
+   */
+  async getAverageInterventionDelay(
+    range: QueryRange,
+  ): Promise<InterventionDelay[]> {
+    const query = flux`${this.from(range, [this.measurements.interventionOpened])}
+  |> group(columns: ["channel"])
+  |> reduce(
+    fn: (r, accumulator) => ({ count: accumulator.count + r.weight, sum: accumulator.sum + r._value }),
+    identity: { count: 0.0, sum: 0.0 },
+  )`;
+    const rows = await this.collect(query);
+
+    return rows.map(({ channel, count, sum }) => ({
+      channel,
+      interventions: count,
+      average_delay: count ? sum / count : 0,
+    }));
+  }
+
+  /**
+   * Counts new and returning users per channel.
+   *
+   * @param range - The time range to query.
+   *
+   * @returns User counts per channel.
+   */
+  async getUserCounts(range: QueryRange): Promise<UserCounts[]> {
+    const query = flux`${this.from(range, [this.measurements.stats])}
+  |> filter(fn: (r) => contains(value: r.type, set: ${[
+    BotStatsType.new_users,
+    BotStatsType.returning_users,
+  ]}))
+  |> group(columns: ["type", "channel"])
+  |> sum()`;
+    const rows = await this.collect(query);
+
+    return Object.values(
+      rows.reduce(
+        (acc, { _value, channel, type }) => {
+          acc[channel] = acc[channel] || {
+            channel,
+            new_users: 0,
+            returning_users: 0,
+          };
+          if (type === BotStatsType.new_users) {
+            acc[channel].new_users += _value;
+          } else {
+            acc[channel].returning_users += _value;
+          }
+          return acc;
+        },
+        {} as { [channel: string]: UserCounts },
+      ),
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+// Delay after which a received message is not expected to get a reply anymore (in ms)
+const MAX_RESPONSE_TIME = 10 * 60 * 1000;
+
+/**
+ * Measures the bot response time, i.e. the delay between a received message and the
+ * first message sent by the bot in reply to it.
+ */
+export class ResponseTimer {
+  // Reception timestamps by received message id
+  private readonly received = new Map<string, number>();
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Records a received message.
+   *
+   * @param messageId - The received message id.
+   * @param at - The reception date.
+   */
+  receive(messageId: string, at = new Date()) {
+    if (messageId && !this.received.has(messageId)) {
+      this.received.set(messageId, at.getTime());
+    }
+  }
+
+  /**
+   * Records a message sent by the bot in reply to a received message.
+   *
+   * @param messageId - The id of the received message being replied to.
+   * @param at - The reply date.
+   *
+   * @returns The response time in milliseconds if this is the first reply, null otherwise.
+   */
+  reply(messageId: string, at = new Date()) {
+    const receivedAt = this.received.get(messageId);
+    if (receivedAt === undefined) {
+      return null;
+    }
+
+    this.received.delete(messageId);
+    return at.getTime() - receivedAt;
+  }
+
+  /**
+   * Forgets the received messages that never got any reply.
+   */
+  sweep() {
+    const expiresAt = Date.now() - MAX_RESPONSE_TIME;
+    for (const [messageId, receivedAt] of this.received) {
+      if (receivedAt < expiresAt) {
+        this.received.delete(messageId);
+      }
+    }
+  }
+
+  /**
+   * Periodically forgets the received messages that never got any reply.
+   *
+   * @param interval - Delay between two sweeps in milliseconds.
+   */
+  start(interval: number) {
+    this.stop();
+    this.sweepTimer = setInterval(() => this.sweep(), interval);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the periodic sweep.
+   */
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
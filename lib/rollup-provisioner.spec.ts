@@ -0,0 +1,133 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { InfluxDB } from '@influxdata/influxdb-client';
+import {
+  BucketsAPI,
+  OrgsAPI,
+  TasksAPI,
+} from '@influxdata/influxdb-client-apis';
+
+import { getMeasurementNames } from './measurements';
+import { RollupOptions, RollupProvisioner } from './rollup-provisioner';
+import { createLoggerMock } from './test/mocks';
+
+jest.mock('@influxdata/influxdb-client-apis');
+
+describe('RollupProvisioner', () => {
+  const options: RollupOptions = {
+    bucket: 'hexabot',
+    subjectTag: 'subject',
+    measurements: getMeasurementNames('legacy'),
+    rollups: [{ name: 'hourly', every: '1h', retention: 30 }],
+  };
+  const buckets = BucketsAPI.prototype as jest.Mocked<BucketsAPI>;
+  const tasks = TasksAPI.prototype as jest.Mocked<TasksAPI>;
+  let provisioner: RollupProvisioner;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (OrgsAPI.prototype as jest.Mocked<OrgsAPI>).getOrgs.mockResolvedValue({
+      orgs: [{ id: 'org-1', name: 'hexastack' }],
+    });
+    buckets.getBuckets.mockResolvedValue({ buckets: [] });
+    tasks.getTasks.mockResolvedValue({ tasks: [] });
+    provisioner = new RollupProvisioner(
+      {} as InfluxDB,
+      'hexastack',
+      createLoggerMock(),
+    );
+  });
+
+  it('should create the missing rollup buckets and tasks', async () => {
+    await provisioner.provision(options);
+
+    expect(buckets.postBuckets).toHaveBeenCalledWith({
+      body: {
+        orgID: 'org-1',
+        name: 'hexabot_hourly',
+        retentionRules: [{ type: 'expire', everySeconds: 30 * 24 * 60 * 60 }],
+      },
+    });
+    const { body } = tasks.postTasks.mock.calls[0][0];
+    expect(body.status).toBe('active');
+    expect(body.flux).toContain(
+      'option task = {name: "influxdb-helper hexabot hourly rollup", every: 1h, offset: 5m}',
+    );
+    expect(body.flux).toContain(
+      'to(bucket: "hexabot_hourly", org: "hexastack")',
+    );
+    expect(body.flux).toContain(`"${options.measurements.block}"`);
+  });
+
+  it('should count the points weighted by their sampling rate', async () => {
+    await provisioner.provision(options);
+
+    const { flux } = tasks.postTasks.mock.calls[0][0].body;
+    expect(flux).toContain('1.0 / r.sample_rate');
+    expect(flux).toContain('aggregateWindow(every: task.every, fn: sum');
+  });
+
+  it('should only update the buckets and tasks that differ', async () => {
+    await provisioner.provision(options);
+    const script = tasks.postTasks.mock.calls[0][0].body.flux;
+    buckets.getBuckets.mockResolvedValue({
+      buckets: [
+        {
+          id: 'bucket-1',
+          name: 'hexabot_hourly',
+          retentionRules: [{ type: 'expire', everySeconds: 24 * 60 * 60 }],
+        },
+      ],
+    });
+    tasks.getTasks.mockResolvedValue({
+      tasks: [
+        {
+          id: 'task-1',
+          orgID: 'org-1',
+          name: 'influxdb-helper hexabot hourly rollup',
+          flux: script,
+          status: 'active',
+        },
+      ],
+    });
+
+    await provisioner.provision(options);
+
+    expect(buckets.patchBucketsID).toHaveBeenCalledWith({
+      bucketID: 'bucket-1',
+      body: {
+        retentionRules: [{ type: 'expire', everySeconds: 30 * 24 * 60 * 60 }],
+      },
+    });
+    expect(buckets.postBuckets).toHaveBeenCalledTimes(1);
+    expect(tasks.postTasks).toHaveBeenCalledTimes(1);
+    expect(tasks.patchTasksID).not.toHaveBeenCalled();
+  });
+
+  it('should deactivate the existing tasks only', async () => {
+    await provisioner.deactivate(options);
+    expect(tasks.postTasks).not.toHaveBeenCalled();
+
+    tasks.getTasks.mockResolvedValue({
+      tasks: [
+        {
+          id: 'task-1',
+          orgID: 'org-1',
+          name: 'influxdb-helper hexabot hourly rollup',
+          flux: '',
+          status: 'active',
+        },
+      ],
+    });
+    await provisioner.deactivate(options);
+    expect(tasks.patchTasksID).toHaveBeenCalledWith({
+      taskID: 'task-1',
+      body: { flux: expect.any(String), status: 'inactive' },
+    });
+  });
+});
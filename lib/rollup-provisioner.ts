@@ -0,0 +1,255 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  flux,
+  fluxString,
+  HttpError,
+  InfluxDB,
+} from '@influxdata/influxdb-client';
+import {
+  Bucket,
+  BucketsAPI,
+  OrgsAPI,
+  TasksAPI,
+} from '@influxdata/influxdb-client-apis';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { MeasurementKey } from './measurements';
+import { SAMPLED_FIELDS, WEIGHT_BY_SAMPLE_RATE } from './sampler';
+
+// Measurements whose points are counted by the rollups
+const COUNTED_MEASUREMENTS: MeasurementKey[] = [
+  'messageSent',
+  'messageReceived',
+  'block',
+  'localFallback',
+  'globalFallback',
+  'handover',
+  'handback',
+];
+
+export type Rollup = {
+  // Suffix of the rollup bucket and task names
+  name: string;
+  // Aggregation window, as a Flux duration literal (e.g. 1h)
+  every: string;
+  // Retention of the rollup bucket in days, 0 for infinite retention
+  retention: number;
+};
+
+export type RollupOptions = {
+  bucket: string;
+  // Tag holding the block subjects
+  subjectTag: string;
+  // Measurement names, according to the naming strategy
+  measurements: Record<MeasurementKey, string>;
+  rollups: Rollup[];
+};
+
+/**
+ * Provisions the rollup buckets, along with the InfluxDB tasks aggregating the raw points into them:
+ * counts per channel, subject and category (weighted by the sampling rate of the points) and
+ * average intervention delay per channel.
+ * Buckets and tasks are looked up by name, then created or updated only when they differ from the
+ * expected ones, hence provisioning can run on every boot and on every settings change.
+ */
+export class RollupProvisioner {
+  constructor(
+    private readonly client: InfluxDB,
+    private readonly organization: string,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Builds the name of a rollup bucket.
+   *
+   * @param bucket - The raw bucket name.
+   * @param rollup - The rollup.
+   *
+   * @returns The rollup bucket name.
+   */
+  static getBucketName(bucket: string, { name }: Rollup) {
+    return `${bucket}_${name}`;
+  }
+
+  /**
+   * Builds the name of a rollup task.
+   *
+   * @param bucket - The raw bucket name.
+   * @param rollup - The rollup.
+   *
+   * @returns The rollup task name.
+   */
+  static getTaskName(bucket: string, { name }: Rollup) {
+    return `influxdb-helper ${bucket} ${name} rollup`;
+  }
+
+  /**
+   * Builds the Flux script of a rollup task.
+   *
+   * @param options - The rollup options.
+   * @param rollup - The rollup.
+   *
+   * @returns The Flux script.
+   */
+  private getTaskFlux(
+    { bucket, subjectTag, measurements }: RollupOptions,
+    rollup: Rollup,
+  ) {
+    const name = RollupProvisioner.getTaskName(bucket, rollup);
+    const target = RollupProvisioner.getBucketName(bucket, rollup);
+    const counted = COUNTED_MEASUREMENTS.map((key) => measurements[key]);
+    // Task options have to be literals
+    const options = `option task = {name: ${fluxString(name)}, every: ${rollup.every}, offset: 5m}`;
+    const script = flux`from(bucket: ${bucket})
+  |> range(start: -task.every)
+  |> filter(fn: (r) => contains(value: r._measurement, set: ${counted}) and ${SAMPLED_FIELDS})
+  |> ${WEIGHT_BY_SAMPLE_RATE}
+  |> map(fn: (r) => ({r with _value: r.weight}))
+  |> group(columns: ["_measurement", "channel", ${subjectTag}, "category"])
+  |> aggregateWindow(every: task.every, fn: sum, createEmpty: false)
+  |> set(key: "_field", value: "count")
+  |> to(bucket: ${target}, org: ${this.organization})
+
+from(bucket: ${bucket})
+  |> range(start: -task.every)
+  |> filter(fn: (r) => r._measurement == ${measurements.interventionOpened} and r._field == "value")
+  |> group(columns: ["_measurement", "channel"])
+  |> aggregateWindow(every: task.every, fn: mean, createEmpty: false)
+  |> set(key: "_field", value: "mean")
+  |> to(bucket: ${target}, org: ${this.organization})
+`;
+    return `${options}\n\n${script}`;
+  }
+
+  /**
+   * Looks up a bucket by name.
+   *
+   * @param name - The bucket name.
+   *
+   * @returns The bucket, or undefined if it does not exist.
+   */
+  private async findBucket(name: string): Promise<Bucket | undefined> {
+    try {
+      const { buckets } = await new BucketsAPI(this.client).getBuckets({
+        org: this.organization,
+        name,
+      });
+      return buckets?.[0];
+    } catch (err) {
+      if (err instanceof HttpError && err.statusCode === 404) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Creates a rollup bucket, or updates its retention if it already exists.
+   *
+   * @param name - The bucket name.
+   * @param retention - The retention in days, 0 for infinite retention.
+   */
+  private async ensureBucket(name: string, retention: number) {
+    const bucketsApi = new BucketsAPI(this.client);
+    const retentionRules = [
+      { type: 'expire' as const, everySeconds: retention * 24 * 60 * 60 },
+    ];
+    const bucket = await this.findBucket(name);
+
+    if (!bucket) {
+      const { orgs } = await new OrgsAPI(this.client).getOrgs({
+        org: this.organization,
+      });
+      if (!orgs?.length) {
+        throw new Error(`Organization "${this.organization}" not found`);
+      }
+      await bucketsApi.postBuckets({
+        body: { orgID: orgs[0].id, name, retentionRules },
+      });
+      this.logger.log(`InfluxDB Service: Created rollup bucket "${name}"`);
+    } else if (
+      (bucket.retentionRules?.[0]?.everySeconds || 0) !==
+      retentionRules[0].everySeconds
+    ) {
+      await bucketsApi.patchBucketsID({
+        bucketID: bucket.id,
+        body: { retentionRules },
+      });
+      this.logger.log(`InfluxDB Service: Updated rollup bucket "${name}"`);
+    }
+  }
+
+  /**
+   * Creates a rollup task, or updates it if its script or status changed.
+   *
+   * @param name - The task name.
+   * @param script - The task Flux script.
+   * @param active - Whether the task should run.
+   */
+  private async ensureTask(name: string, script: string, active: boolean) {
+    const tasksApi = new TasksAPI(this.client);
+    const status = active ? 'active' : 'inactive';
+    const { tasks } = await tasksApi.getTasks({
+      org: this.organization,
+      name,
+    });
+    const task = tasks?.[0];
+
+    if (!task) {
+      if (active) {
+        await tasksApi.postTasks({
+          body: { org: this.organization, flux: script, status },
+        });
+        this.logger.log(`InfluxDB Service: Created rollup task "${name}"`);
+      }
+    } else if (task.flux !== script || task.status !== status) {
+      await tasksApi.patchTasksID({
+        taskID: task.id,
+        body: { flux: script, status },
+      });
+      this.logger.log(`InfluxDB Service: Updated rollup task "${name}"`);
+    }
+  }
+
+  /**
+   * Provisions the rollup buckets and tasks.
+   *
+   * @param options - The rollup options.
+   */
+  async provision(options: RollupOptions) {
+    for (const rollup of options.rollups) {
+      await this.ensureBucket(
+        RollupProvisioner.getBucketName(options.bucket, rollup),
+        rollup.retention,
+      );
+      await this.ensureTask(
+        RollupProvisioner.getTaskName(options.bucket, rollup),
+        this.getTaskFlux(options, rollup),
+        true,
+      );
+    }
+  }
+
+  /**
+   * Deactivates the rollup tasks, if any. Rollup buckets and their data are kept.
+   *
+   * @param options - The rollup options.
+   */
+  async deactivate(options: RollupOptions) {
+    for (const rollup of options.rollups) {
+      await this.ensureTask(
+        RollupProvisioner.getTaskName(options.bucket, rollup),
+        this.getTaskFlux(options, rollup),
+        false,
+      );
+    }
+  }
+}
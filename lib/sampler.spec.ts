@@ -0,0 +1,60 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Sampler } from './sampler';
+import { createLoggerMock } from './test/mocks';
+
+describe('Sampler', () => {
+  const logger = createLoggerMock();
+  let sampler: Sampler;
+
+  beforeEach(() => {
+    sampler = new Sampler(logger);
+  });
+
+  it('should keep all the events of the families without sampling', () => {
+    expect(sampler.sample('', 'message_sent', 'subscriber-1')).toBe(1);
+    expect(sampler.sample('{"stats":true}', 'stats')).toBe(1);
+  });
+
+  it('should drop the events of the disabled families', () => {
+    expect(sampler.sample('{"stats":false}', 'stats')).toBe(0);
+    expect(sampler.sample('{"block":0}', 'block', 'subscriber-1')).toBe(0);
+  });
+
+  it('should clamp the rates and ignore the unknown families', () => {
+    expect(sampler.sample('{"nlp":2}', 'nlp')).toBe(1);
+    expect(sampler.sample('{"nlp":-1}', 'nlp')).toBe(0);
+    expect(sampler.sample('{"unknown":0}', 'nlp')).toBe(1);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  it('should sample subscribers consistently', () => {
+    const raw = '{"message_received":0.5}';
+    const kept = Array.from({ length: 100 }, (_, index) =>
+      sampler.sample(raw, 'message_received', `subscriber-${index}`),
+    );
+    kept.forEach((rate, index) => {
+      expect([0, 0.5]).toContain(rate);
+      expect(
+        sampler.sample(raw, 'message_received', `subscriber-${index}`),
+      ).toBe(rate);
+    });
+    // Roughly half of the subscribers are kept
+    const count = kept.filter((rate) => rate > 0).length;
+    expect(count).toBeGreaterThan(25);
+    expect(count).toBeLessThan(75);
+  });
+
+  it('should return the rate of the kept events so that they can be weighted', () => {
+    jest.spyOn(Math, 'random').mockReturnValueOnce(0.1);
+    expect(sampler.sample('{"block":0.25}', 'block', undefined)).toBe(0.25);
+    jest.spyOn(Math, 'random').mockReturnValueOnce(0.9);
+    expect(sampler.sample('{"block":0.25}', 'block', undefined)).toBe(0);
+  });
+});
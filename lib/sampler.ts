@@ -0,0 +1,134 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { fluxExpression } from '@influxdata/influxdb-client';
+import { createHash } from 'crypto';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { JsonSetting } from './json-setting';
+
+export const EVENT_FAMILIES = [
+  'message_sent',
+  'message_received',
+  'nlp',
+  'block',
+  'fallback',
+  'passation',
+  'intervention',
+  'stats',
+] as const;
+
+export type EventFamily = (typeof EVENT_FAMILIES)[number];
+
+export type SamplingRates = { [family in EventFamily]?: number };
+
+// Flux predicate keeping the fields needed to weight the points by their sampling rate
+export const SAMPLED_FIELDS = fluxExpression(
+  '(r._field == "value" or r._field == "sample_rate")',
+);
+
+/**
+ * Flux pipe weighting the points, filtered on `SAMPLED_FIELDS`, by the inverse of the sampling
+ * rate they were kept with. Rows get a `weight` column (1 for points kept without sampling)
+ * to estimate the number of events, and their `value` gets scaled by it so that sums estimate
+ * the totals of all the events, sampled out ones included.
+ */
+export const WEIGHT_BY_SAMPLE_RATE =
+  fluxExpression(`pivot(rowKey: ["_time"], columnKey: ["_field"], valueColumn: "_value")
+  |> filter(fn: (r) => exists r.value)
+  |> map(fn: (r) => {
+    weight = if exists r.sample_rate and r.sample_rate > 0.0 then 1.0 / r.sample_rate else 1.0
+    return {r with _field: "value", _value: r.value * weight, weight: weight}
+  })
+  |> drop(fn: (column) => column == "value" or column == "sample_rate")`);
+
+/**
+ * Decides which events get recorded, based on a sampling rate per event family ranging from
+ * 0 (disabled) to 1 (all the events). Sampling can be made deterministic per subscriber so that
+ * a sampled subscriber has all of its events recorded.
+ */
+export class Sampler {
+  private readonly rates: JsonSetting<SamplingRates>;
+
+  constructor(private readonly logger: LoggerService) {
+    this.rates = new JsonSetting('event_sampling', {}, logger, (rates) =>
+      this.normalize(rates),
+    );
+  }
+
+  /**
+   * Validates the parsed rates, booleans enabling or disabling a family. Invalid entries are ignored.
+   *
+   * @param rates - The parsed JSON rates.
+   *
+   * @returns The rates by event family, between 0 and 1.
+   */
+  private normalize(rates: any): SamplingRates {
+    if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+      throw new Error('Event sampling should be an object');
+    }
+    return Object.entries(rates).reduce((acc, [family, rate]) => {
+      if (!EVENT_FAMILIES.includes(family as EventFamily)) {
+        this.logger.warn(
+          `InfluxDB Service: Ignoring sampling of unknown event family "${family}"`,
+        );
+      } else if (typeof rate === 'boolean') {
+        acc[family] = rate ? 1 : 0;
+      } else if (typeof rate === 'number' && !isNaN(rate)) {
+        acc[family] = Math.min(Math.max(rate, 0), 1);
+      } else {
+        this.logger.warn(
+          `InfluxDB Service: Ignoring invalid sampling rate of "${family}"`,
+          rate,
+        );
+      }
+      return acc;
+    }, {} as SamplingRates);
+  }
+
+  /**
+   * Maps a subscriber id to a stable number between 0 (included) and 1 (excluded).
+   *
+   * @param subscriberId - The subscriber id.
+   *
+   * @returns The subscriber draw.
+   */
+  private draw(subscriberId: string) {
+    return (
+      createHash('sha256').update(subscriberId).digest().readUInt32BE(0) /
+      2 ** 32
+    );
+  }
+
+  /**
+   * Decides whether an event gets recorded.
+   *
+   * @param raw - The sampling rates JSON, as stored in the settings.
+   * @param family - The event family.
+   * @param subscriberId - The subscriber id, if the event relates to a subscriber.
+   * @param perSubscriber - Whether to sample subscribers rather than individual events.
+   *
+   * @returns The sampling rate if the event is kept, 0 if it is dropped.
+   */
+  sample(
+    raw: string,
+    family: EventFamily,
+    subscriberId?: string,
+    perSubscriber = true,
+  ) {
+    const rate = this.rates.parse(raw)[family] ?? 1;
+    if (rate >= 1 || rate <= 0) {
+      return rate;
+    }
+
+    const draw =
+      perSubscriber && subscriberId ? this.draw(subscriberId) : Math.random();
+    return draw < rate ? rate : 0;
+  }
+}
@@ -0,0 +1,126 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+import { TrackSchema } from '../types';
+
+import { Measurement } from './measurements';
+import { SchemaRegistry } from './schema-registry';
+
+describe('SchemaRegistry', () => {
+  const schema: TrackSchema = {
+    measurement: 'Order placed',
+    tags: { channel: { required: true }, country: {} },
+    fields: {
+      amount: { type: 'float', required: true },
+      items: { type: 'int' },
+      coupon: { type: 'string' },
+      gift: { type: 'boolean' },
+    },
+  };
+  let registry: SchemaRegistry;
+
+  beforeEach(() => {
+    registry = new SchemaRegistry();
+    registry.register(schema);
+  });
+
+  it('should refuse the measurements and keys reserved by the helper', () => {
+    expect(() =>
+      registry.register({ measurement: Measurement.block, fields: {} }),
+    ).toThrow('reserved');
+    expect(() =>
+      registry.register({
+        measurement: 'Refund',
+        tags: { schema_version: {} },
+        fields: { value: { type: 'float' } },
+      }),
+    ).toThrow('value, schema_version');
+    expect(() => registry.register({ measurement: '', fields: {} })).toThrow();
+  });
+
+  it('should refuse the names written as helper or registered measurements once snake cased', () => {
+    expect(() =>
+      registry.register({ measurement: 'message_sent', fields: {} }),
+    ).toThrow('reserved');
+    expect(() =>
+      registry.register({ measurement: 'Message sent', fields: {} }),
+    ).toThrow('reserved');
+    expect(() =>
+      registry.register({ ...schema, measurement: 'order_placed' }),
+    ).toThrow('"Order placed"');
+  });
+
+  it('should only register a measurement again with the same schema', () => {
+    expect(() =>
+      registry.register({
+        ...schema,
+        tags: { country: {}, channel: { required: true } },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      registry.register({
+        ...schema,
+        fields: { ...schema.fields, note: { type: 'string' } },
+      }),
+    ).toThrow('note');
+  });
+
+  it('should refuse to change the type of a registered field', () => {
+    expect(() =>
+      registry.register({
+        ...schema,
+        fields: { ...schema.fields, items: { type: 'string' } },
+      }),
+    ).toThrow('items');
+    expect(registry.get('Order placed')).toBe(schema);
+  });
+
+  it('should type the tags and fields of a valid event', () => {
+    expect(
+      registry.validate({
+        measurement: 'Order placed',
+        tags: { channel: 'web' },
+        fields: { amount: 12.5, items: 2, coupon: null, gift: false },
+      }),
+    ).toEqual({
+      errors: [],
+      tags: { channel: 'web' },
+      fields: {
+        amount: { type: 'float', value: 12.5 },
+        items: { type: 'int', value: 2 },
+        gift: { type: 'boolean', value: false },
+      },
+    });
+  });
+
+  it('should report the events that do not match the schema', () => {
+    const { errors, tags, fields } = registry.validate({
+      measurement: 'Order placed',
+      value: NaN,
+      tags: { country: 'fr', city: 'Paris' },
+      fields: { items: 1.5, coupon: 10, note: 'fast' },
+    });
+
+    expect(errors).toEqual([
+      'Value should be a finite number',
+      'Unknown tag "city"',
+      'Tag "channel" is required',
+      'Unknown field "note"',
+      'Field "amount" is required',
+      'Field "items" should be of type int',
+      'Field "coupon" should be of type string',
+    ]);
+    expect(tags).toEqual({ country: 'fr' });
+    expect(fields).toEqual({});
+  });
+
+  it('should report the events of unregistered measurements', () => {
+    expect(registry.validate({ measurement: 'Unknown' }).errors).toEqual([
+      'Measurement "Unknown" is not registered',
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { isDeepStrictEqual } from 'util';
+
+import {
+  InfluxFields,
+  InfluxTags,
+  TrackEvent,
+  TrackFieldType,
+  TrackSchema,
+} from '../types';
+
+import { getMeasurementName, getMeasurementNames } from './measurements';
+
+// Fields written by the helper on every point
+const RESERVED_FIELDS = ['value', 'sample_rate'];
+
+// Tags written by the helper on every point
+const RESERVED_TAGS = ['schema_version'];
+
+/**
+ * Returns the snake cased name of a measurement. Measurements whose snake cased names are equal
+ * are written to the same measurement under the `snake_case` and `prefix` naming strategies.
+ *
+ * @param measurement - The measurement name.
+ *
+ * @returns The snake cased name.
+ */
+const getSnakeCasedName = (measurement: string) =>
+  getMeasurementName(measurement, 'snake_case');
+
+// Snake cased names of the helper measurements
+const RESERVED_MEASUREMENTS = Object.values(getMeasurementNames('snake_case'));
+
+/**
+ * Lists the keys declared differently by two definitions of tags or fields.
+ *
+ * @param previous - The previous definitions by key.
+ * @param next - The new definitions by key.
+ *
+ * @returns The keys added, removed or changed.
+ */
+const getChangedKeys = <T>(
+  previous: { [key: string]: T },
+  next: { [key: string]: T },
+) =>
+  [...new Set([...Object.keys(previous), ...Object.keys(next)])].filter(
+    (key) => !isDeepStrictEqual(previous[key], next[key]),
+  );
+
+/**
+ * Checks whether a value matches a field type.
+ *
+ * @param type - The field type.
+ * @param value - The value.
+ *
+ * @returns True if the value can be written as a field of the given type.
+ */
+const isOfType = (type: TrackFieldType, value: unknown) => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'int':
+      return Number.isSafeInteger(value);
+    case 'float':
+      return typeof value === 'number' && isFinite(value);
+  }
+};
+
+/**
+ * Holds the schemas of the measurements tracked by other extensions, so that every point of a
+ * measurement is written with the same tags and field types. InfluxDB rejects the whole point
+ * when a field type differs from the one already written.
+ */
+export class SchemaRegistry {
+  // Schemas by measurement name
+  private readonly schemas = new Map<string, TrackSchema>();
+
+  /**
+   * Registers the schema of a measurement. Registering it again (e.g. on reload) is allowed as
+   * long as the schema is the same. Names are compared once snake cased, so that a measurement
+   * never shares the name of a helper measurement or of another registered one, whatever the
+   * naming strategy (which may change afterwards).
+   *
+   * @param schema - The measurement schema.
+   */
+  register(schema: TrackSchema) {
+    const { measurement, tags = {}, fields } = schema;
+    if (!measurement) {
+      throw new Error('Schema measurement name is required');
+    }
+    const snakeCasedName = getSnakeCasedName(measurement);
+    if (RESERVED_MEASUREMENTS.includes(snakeCasedName)) {
+      throw new Error(`Measurement "${measurement}" is reserved by the helper`);
+    }
+    const homonym = [...this.schemas.keys()].find(
+      (name) =>
+        name !== measurement && getSnakeCasedName(name) === snakeCasedName,
+    );
+    if (homonym) {
+      throw new Error(
+        `Measurement "${measurement}" has the same name as "${homonym}" once snake cased`,
+      );
+    }
+    const reserved = [
+      ...Object.keys(fields).filter((key) => RESERVED_FIELDS.includes(key)),
+      ...Object.keys(tags).filter((key) => RESERVED_TAGS.includes(key)),
+    ];
+    if (reserved.length) {
+      throw new Error(
+        `Measurement "${measurement}" declares reserved keys: ${reserved.join(', ')}`,
+      );
+    }
+
+    const existing = this.schemas.get(measurement);
+    if (existing) {
+      const changes = [
+        ...getChangedKeys(existing.tags || {}, tags),
+        ...getChangedKeys(existing.fields, fields),
+      ];
+      if (changes.length) {
+        throw new Error(
+          `Measurement "${measurement}" is already registered with another schema, changed keys: ${changes.join(', ')}`,
+        );
+      }
+    }
+    this.schemas.set(measurement, schema);
+  }
+
+  /**
+   * Returns the schema of a measurement.
+   *
+   * @param measurement - The measurement name.
+   *
+   * @returns The schema, or undefined if the measurement is not registered.
+   */
+  get(measurement: string) {
+    return this.schemas.get(measurement);
+  }
+
+  /**
+   * Validates a tracked event against the schema of its measurement.
+   *
+   * @param event - The tracked event.
+   *
+   * @returns The typed tags and fields to write, along with the validation errors if any.
+   */
+  validate({ measurement, value = 1, tags = {}, fields = {} }: TrackEvent) {
+    const schema = this.schemas.get(measurement);
+    if (!schema) {
+      return {
+        errors: [`Measurement "${measurement}" is not registered`],
+        tags: {},
+        fields: {},
+      };
+    }
+
+    const errors: string[] = [];
+    const tagSchemas = schema.tags || {};
+    if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push('Value should be a finite number');
+    }
+    Object.entries(tags)
+      .filter(([key]) => !tagSchemas[key])
+      .forEach(([key]) => errors.push(`Unknown tag "${key}"`));
+    Object.entries(tagSchemas).forEach(([key, { required }]) => {
+      const tag = tags[key];
+      if (tag !== undefined && tag !== null && typeof tag !== 'string') {
+        errors.push(`Tag "${key}" should be a string`);
+      } else if (required && !tag) {
+        errors.push(`Tag "${key}" is required`);
+      }
+    });
+
+    const typedFields: InfluxFields = {};
+    Object.keys(fields)
+      .filter((key) => !schema.fields[key])
+      .forEach((key) => errors.push(`Unknown field "${key}"`));
+    Object.entries(schema.fields).forEach(([key, { type, required }]) => {
+      const fieldValue = fields[key];
+      if (fieldValue === undefined || fieldValue === null) {
+        if (required) {
+          errors.push(`Field "${key}" is required`);
+        }
+      } else if (!isOfType(type, fieldValue)) {
+        errors.push(`Field "${key}" should be of type ${type}`);
+      } else {
+        typedFields[key] = { type, value: fieldValue } as InfluxFields[string];
+      }
+    });
+
+    return {
+      errors,
+      tags: Object.fromEntries(
+        Object.entries(tags).filter(([key]) => tagSchemas[key]),
+      ) as InfluxTags,
+      fields: typedFields,
+    };
+  }
+}
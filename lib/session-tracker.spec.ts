@@ -0,0 +1,93 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+
+import { Session, SessionTracker } from './session-tracker';
+import { createLoggerMock } from './test/mocks';
+
+describe('SessionTracker', () => {
+  const subscriber = { id: 'subscriber-1' } as Subscriber;
+  const at = (minutes: number) =>
+    new Date(Date.UTC(2024, 5, 1, 10) + minutes * 60 * 1000);
+  let started: Session[];
+  let ended: Session[];
+  let tracker: SessionTracker;
+
+  beforeEach(() => {
+    started = [];
+    ended = [];
+    tracker = new SessionTracker(
+      {
+        onStart: async (session) => {
+          started.push({ ...session });
+        },
+        // Ending a session takes a while, e.g. to queue its point
+        onEnd: (session) =>
+          new Promise((resolve) =>
+            setImmediate(() => resolve(ended.push({ ...session }))),
+          ),
+      },
+      createLoggerMock(),
+    );
+    tracker.idleTimeout = 30 * 60 * 1000;
+  });
+
+  it('should count the activities of a session', async () => {
+    await tracker.track(subscriber, 'web', 'received', at(0));
+    await tracker.track(subscriber, 'web', 'block', at(1));
+    await tracker.track(subscriber, 'web', 'sent', at(2));
+    await tracker.track(subscriber, 'web', 'received', at(40));
+
+    expect(started).toHaveLength(2);
+    expect(ended).toEqual([
+      expect.objectContaining({
+        startedAt: at(0),
+        lastActivityAt: at(2),
+        received: 1,
+        sent: 1,
+        blocks: 1,
+      }),
+    ]);
+  });
+
+  it('should start a single session for concurrent activities', async () => {
+    await tracker.track(subscriber, 'web', 'received', at(0));
+    await Promise.all([
+      tracker.track(subscriber, 'web', 'received', at(40)),
+      tracker.track(subscriber, 'web', 'block', at(40)),
+      tracker.track(subscriber, 'web', 'sent', at(40)),
+    ]);
+
+    expect(started).toHaveLength(2);
+    expect(ended).toHaveLength(1);
+    await tracker.track(subscriber, 'web', 'received', at(80));
+    expect(ended[1]).toEqual(
+      expect.objectContaining({ received: 1, blocks: 1, sent: 1 }),
+    );
+  });
+
+  it('should end the expired sessions on sweep', async () => {
+    await tracker.track(subscriber, 'web', 'received');
+    await tracker.sweep();
+    expect(ended).toHaveLength(0);
+
+    tracker.idleTimeout = -1;
+    await tracker.sweep();
+    expect(ended).toHaveLength(1);
+  });
+
+  it('should drop the ongoing sessions when stopped', async () => {
+    await tracker.track(subscriber, 'web', 'received', at(0));
+    tracker.stop();
+    await tracker.track(subscriber, 'web', 'received', at(1));
+
+    expect(ended).toHaveLength(0);
+    expect(started).toHaveLength(2);
+  });
+});
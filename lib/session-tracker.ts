@@ -0,0 +1,179 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+import { LoggerService } from '@/logger/logger.service';
+
+export type SessionActivity =
+  'received' | 'sent' | 'block' | 'fallback' | 'handover';
+
+export type Session = {
+  subscriber: Subscriber;
+  channel: string;
+  startedAt: Date;
+  lastActivityAt: Date;
+  received: number;
+  sent: number;
+  blocks: number;
+  fallbacks: number;
+  handover: boolean;
+};
+
+export type SessionCallbacks = {
+  onStart: (session: Session) => Promise<unknown>;
+  onEnd: (session: Session) => Promise<unknown>;
+};
+
+/**
+ * Tracks conversation sessions per subscriber in memory. A session starts with the first activity
+ * of a subscriber and ends once the subscriber has been idle for longer than the idle timeout.
+ */
+export class SessionTracker {
+  private readonly sessions = new Map<string, Session>();
+
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  // Idle timeout in milliseconds
+  idleTimeout = 30 * 60 * 1000;
+
+  constructor(
+    private readonly callbacks: SessionCallbacks,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Records an activity of a subscriber, starting a new session if the subscriber has none
+   * or if the previous one has expired.
+   *
+   * @param subscriber - The subscriber.
+   * @param channel - The channel name.
+   * @param activity - The kind of activity.
+   * @param at - The activity date.
+   */
+  async track(
+    subscriber: Subscriber,
+    channel: string,
+    activity: SessionActivity,
+    at = new Date(),
+  ) {
+    const previous = this.sessions.get(subscriber.id);
+    let session = previous;
+
+    // The new session replaces the expired one right away, so that concurrent activities
+    // of the subscriber are tracked in the same session
+    if (!session || this.isExpired(session, at)) {
+      session = {
+        subscriber,
+        channel,
+        startedAt: at,
+        lastActivityAt: at,
+        received: 0,
+        sent: 0,
+        blocks: 0,
+        fallbacks: 0,
+        handover: false,
+      };
+      this.sessions.set(subscriber.id, session);
+    }
+
+    session.lastActivityAt = at;
+    switch (activity) {
+      case 'received':
+        session.received++;
+        break;
+      case 'sent':
+        session.sent++;
+        break;
+      case 'block':
+        session.blocks++;
+        break;
+      case 'fallback':
+        session.fallbacks++;
+        break;
+      case 'handover':
+        session.handover = true;
+        break;
+    }
+
+    if (session !== previous) {
+      if (previous) {
+        await this.end(previous);
+      }
+      await this.callbacks.onStart(session);
+    }
+  }
+
+  /**
+   * Checks whether a session has been idle for longer than the idle timeout.
+   *
+   * @param session - The session.
+   * @param now - The reference date.
+   *
+   * @returns True if the session has expired.
+   */
+  private isExpired(session: Session, now = new Date()) {
+    return now.getTime() - session.lastActivityAt.getTime() > this.idleTimeout;
+  }
+
+  /**
+   * Ends a session.
+   *
+   * @param session - The session to end.
+   */
+  private async end(session: Session) {
+    if (this.sessions.get(session.subscriber.id) === session) {
+      this.sessions.delete(session.subscriber.id);
+    }
+    await this.callbacks.onEnd(session);
+  }
+
+  /**
+   * Ends all the sessions that have expired.
+   */
+  async sweep() {
+    const now = new Date();
+    const expired = [...this.sessions.values()].filter((session) =>
+      this.isExpired(session, now),
+    );
+    await Promise.all(expired.map((session) => this.end(session)));
+  }
+
+  /**
+   * Periodically ends the expired sessions.
+   *
+   * @param interval - Delay between two sweeps in milliseconds.
+   */
+  start(interval: number) {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+    this.sweepTimer = setInterval(
+      () =>
+        this.sweep().catch((err) => {
+          this.logger.error(
+            'InfluxDB Service: Unable to end the idle sessions',
+            err,
+          );
+        }),
+      interval,
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stops the periodic sweep. Ongoing sessions are dropped rather than ended, since a restart
+   * does not mean that the subscribers left: no end is recorded for them.
+   */
+  stop() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.sessions.clear();
+  }
+}
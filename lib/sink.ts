@@ -0,0 +1,168 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  currentTime,
+  dateToProtocolTimestamp,
+  HttpError,
+  Point,
+  WritePrecisionType,
+} from '@influxdata/influxdb-client';
+
+export const INFLUXDB_VERSIONS = ['v1', 'v2', 'v3'] as const;
+
+export type InfluxdbVersion = (typeof INFLUXDB_VERSIONS)[number];
+
+// Where the points go: InfluxDB, a local line protocol file, the logs, or both InfluxDB and the file
+export const SINK_MODES = ['influxdb', 'file', 'log', 'both'] as const;
+
+export type SinkMode = (typeof SINK_MODES)[number];
+
+export const WRITE_PRECISIONS: WritePrecisionType[] = ['s', 'ms', 'us', 'ns'];
+
+export type BatchOptions = {
+  batchSize: number;
+  flushInterval: number;
+  maxRetries: number;
+  retryJitter: number;
+  // Precision of the point timestamps
+  precision: WritePrecisionType;
+  // Called with the lines that could not be written once all retries are exhausted
+  onFailed?: (lines: string[]) => Promise<void>;
+  // Called whenever a batch is written, or given up because of the error
+  onSuccess?: (lines: string[]) => void;
+  onError?: (error: Error, lines: string[]) => void;
+};
+
+// Batch options that can be changed on a live sink, without recreating it
+export type BatchTuning = Pick<
+  BatchOptions,
+  'batchSize' | 'flushInterval' | 'maxRetries' | 'retryJitter'
+>;
+
+/**
+ * Destination of the analytic points. The events are built regardless of the sink,
+ * which takes care of the connection, the batching and the retries towards its backend.
+ */
+export interface Sink {
+  /**
+   * Checks that the server is reachable.
+   *
+   * @returns A promise resolved once the server answered, rejected if it cannot be reached.
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Checks that the destination exists and that the credentials are accepted, without writing
+   * any point.
+   *
+   * @returns A promise resolved once checked, rejected with a 401 or 403 `HttpError` when the credentials are refused, a 404 one when the destination does not exist.
+   */
+  checkAccess(): Promise<void>;
+
+  /**
+   * Queues a point, it will be sent along with the next batch.
+   *
+   * @param point - The point to write.
+   */
+  write(point: Point): void;
+
+  /**
+   * Writes line protocol lines right away, bypassing the batch buffer and the retries.
+   *
+   * @param lines - The line protocol lines to write.
+   * @param precision - The precision of the line timestamps, defaults to nanoseconds.
+   *
+   * @returns A promise resolved once the lines are written, rejected if the write fails.
+   */
+  writeLines(lines: string[], precision?: WritePrecisionType): Promise<void>;
+
+  /**
+   * Counts the points queued but not written (nor given up) yet.
+   *
+   * @returns The number of pending points.
+   */
+  getQueueDepth(): number;
+
+  /**
+   * Updates the batch options, applied from the next batch on.
+   *
+   * @param tuning - The batch options to update.
+   */
+  configure(tuning: Partial<BatchTuning>): void;
+
+  /**
+   * Sends all the buffered points immediately.
+   *
+   * @returns A promise resolved once the buffered points are sent, with the lines that could be neither written nor spooled.
+   */
+  flush(): Promise<string[]>;
+
+  /**
+   * Flushes the buffered points and releases the connection.
+   * The sink cannot be used anymore once closed.
+   *
+   * @returns A promise resolved once the sink is closed.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Checks whether a write that failed with the given error is worth retrying.
+ *
+ * @param error - The error returned by the write attempt.
+ *
+ * @returns True if the error is a network error or a retriable HTTP status.
+ */
+export const isRetriable = (error: Error) =>
+  !(error instanceof HttpError) || error.statusCode >= 429;
+
+/**
+ * Checks whether a write failed because of the lines themselves (malformed lines, conflicting
+ * field types, batch too large), in which case writing them again would fail the same way.
+ * Authentication or missing bucket errors are not considered, since fixing the settings is
+ * enough for the lines to be written.
+ *
+ * @param error - The error returned by the write attempt.
+ *
+ * @returns True if the lines were rejected by the server.
+ */
+export const isRejected = (error: Error) =>
+  error instanceof HttpError && [400, 413, 422].includes(error.statusCode);
+
+/**
+ * Builds the error of a destination (organization, bucket, database or retention policy) that
+ * does not exist, as answered by InfluxDB.
+ *
+ * @param message - The error message, naming the missing destination.
+ *
+ * @returns The 404 HTTP error.
+ */
+export const createNotFoundError = (message: string) =>
+  new HttpError(404, 'Not Found', undefined, undefined, undefined, message);
+
+/**
+ * Builds the serializer of the point timestamps for a given precision, points without
+ * a timestamp being stamped with the current time.
+ *
+ * @param precision - The write precision.
+ *
+ * @returns The timestamp serializer, as expected by `Point.toLineProtocol()`.
+ */
+export const getTimeConverter =
+  (precision: WritePrecisionType) =>
+  (value: string | number | Date | undefined): string | undefined => {
+    if (value === undefined) {
+      return currentTime[precision]();
+    } else if (value instanceof Date) {
+      return dateToProtocolTimestamp[precision](value);
+    } else if (typeof value === 'number') {
+      return String(Math.floor(value));
+    }
+    return value;
+  };
@@ -0,0 +1,111 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { HttpError, WritePrecisionType } from '@influxdata/influxdb-client';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { PointSpool } from './spool';
+import { createLoggerMock } from './test/mocks';
+
+describe('PointSpool', () => {
+  const logger = createLoggerMock();
+  let directory: string;
+
+  const createSpool = () =>
+    new PointSpool(
+      { directory, maxSize: 1024 * 1024, maxAge: 60 * 60 * 1000 },
+      logger,
+    );
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'influxdb-spool-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the batches of several spools sharing a directory', async () => {
+    await Promise.all([
+      createSpool().append(['a value=1 1'], 'ns'),
+      createSpool().append(['b value=1 1'], 'ns'),
+    ]);
+
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+
+  it('should replay the batches in order with their precision', async () => {
+    const spool = createSpool();
+    await spool.append(['a value=1 1'], 'ms');
+    await spool.append(['b value=1 1', 'b value=2 2'], 'ns');
+    const write = jest
+      .fn<Promise<void>, [string[], WritePrecisionType]>()
+      .mockResolvedValue();
+
+    expect(await spool.replay(write)).toBe(3);
+    expect(write.mock.calls).toEqual([
+      [['a value=1 1'], 'ms'],
+      [['b value=1 1', 'b value=2 2'], 'ns'],
+    ]);
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+
+  it('should keep the batches while InfluxDB is unreachable', async () => {
+    const spool = createSpool();
+    await spool.append(['a value=1 1'], 'ns');
+    await spool.append(['b value=1 1'], 'ns');
+    const write = jest
+      .fn<Promise<void>, [string[], WritePrecisionType]>()
+      .mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    expect(await spool.replay(write)).toBe(0);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+
+  it('should move the rejected batches to the dead-letter directory and carry on', async () => {
+    const spool = createSpool();
+    await spool.append(['a value="oops" 1'], 'ns');
+    await spool.append(['b value=1 1'], 'ns');
+    const write = jest
+      .fn<Promise<void>, [string[], WritePrecisionType]>()
+      .mockRejectedValueOnce(new HttpError(400, 'Bad Request'))
+      .mockResolvedValue();
+
+    expect(await spool.replay(write)).toBe(1);
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(await readdir(directory)).toEqual(['.dead-letter']);
+    const [deadLetter] = await readdir(join(directory, '.dead-letter'));
+    expect(
+      await readFile(join(directory, '.dead-letter', deadLetter), 'utf8'),
+    ).toBe('a value="oops" 1');
+  });
+
+  it('should remove the matching lines, dead-letter batches included', async () => {
+    const spool = createSpool();
+    await spool.append(['a value=1 1', 'b value=1 1'], 'ns');
+    await spool.append(['a value=2 2'], 'ns');
+    await spool.replay(
+      jest.fn().mockRejectedValue(new HttpError(400, 'Bad Request')),
+    );
+    await spool.append(['a value=3 3', 'c value=1 1'], 'ns');
+
+    expect(await spool.removeLines((line) => line.startsWith('a '))).toBe(3);
+    const write = jest
+      .fn<Promise<void>, [string[], WritePrecisionType]>()
+      .mockResolvedValue();
+    await spool.replay(write);
+    expect(write.mock.calls).toEqual([[['c value=1 1'], 'ns']]);
+    const [deadLetter] = await readdir(join(directory, '.dead-letter'));
+    expect(
+      await readFile(join(directory, '.dead-letter', deadLetter), 'utf8'),
+    ).toBe('b value=1 1');
+  });
+});
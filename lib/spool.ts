@@ -0,0 +1,324 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { WritePrecisionType } from '@influxdata/influxdb-client';
+import { randomBytes } from 'crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from 'fs/promises';
+import { basename, join } from 'path';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { isRejected } from './sink';
+
+export type PointSpoolOptions = {
+  directory: string;
+  // Max total size of the spool in bytes
+  maxSize: number;
+  // Max age of a spooled batch in milliseconds
+  maxAge: number;
+};
+
+type SpoolFile = {
+  path: string;
+  size: number;
+  mtime: Date;
+};
+
+const SPOOL_FILE_EXTENSION = '.lp';
+
+// Precision recorded in the spool file names, e.g. `1700000000000-000001-9f86d081.ms.lp`
+const SPOOL_FILE_PRECISION = /\.(s|ms|us|ns)\.lp$/;
+
+// Sub-directory holding the batches rejected by InfluxDB, kept for inspection
+const DEAD_LETTER_DIRECTORY = '.dead-letter';
+
+/**
+ * A local, persistent spool of line protocol batches that could not be written to InfluxDB.
+ * Each failed batch is stored in its own file, files are named after their creation time so that
+ * they can be replayed in order. Since lines already carry their timestamp, replayed points keep
+ * their original time. The precision of the timestamps is recorded in the file name, so that
+ * batches spooled before a precision change are still replayed accurately.
+ * Batches rejected by InfluxDB on replay are moved to a dead-letter sub-directory, so that
+ * they do not block the batches spooled after them.
+ */
+export class PointSpool {
+  private sequence = 0;
+
+  private replaying = false;
+
+  // Replays and erasures are chained so that they do not rewrite the same files concurrently
+  private running: Promise<unknown> = Promise.resolve();
+
+  private replayTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly options: PointSpoolOptions,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Persists a batch of line protocol lines in the spool, then enforces the size and age caps.
+   *
+   * @param lines - The line protocol lines to persist.
+   * @param precision - The precision of the line timestamps.
+   */
+  async append(lines: string[], precision: WritePrecisionType) {
+    if (!lines.length) {
+      return;
+    }
+
+    try {
+      await mkdir(this.options.directory, { recursive: true });
+      // Zero padded so that files sort in creation order, the random suffix prevents collisions
+      // with the other spools (e.g. another process) sharing the directory
+      const sequence = String(this.sequence++ % 1e6).padStart(6, '0');
+      const suffix = randomBytes(4).toString('hex');
+      const name = `${Date.now()}-${sequence}-${suffix}.${precision}${SPOOL_FILE_EXTENSION}`;
+      await writeFile(join(this.options.directory, name), lines.join('\n'), {
+        flag: 'wx',
+      });
+      this.logger.warn(
+        `InfluxDB Service: Spooled ${lines.length} analytic event(s) to ${name}`,
+      );
+      await this.prune();
+    } catch (err) {
+      this.logger.error(
+        `InfluxDB Service: Unable to spool ${lines.length} analytic event(s)`,
+        err,
+      );
+    }
+  }
+
+  /**
+   * Moves a batch rejected by InfluxDB to the dead-letter sub-directory.
+   *
+   * @param path - The path of the spool file.
+   * @param lines - The number of lines of the batch.
+   * @param error - The error returned by InfluxDB.
+   */
+  private async moveToDeadLetter(path: string, lines: number, error: Error) {
+    const directory = join(this.options.directory, DEAD_LETTER_DIRECTORY);
+    await mkdir(directory, { recursive: true });
+    await rename(path, join(directory, basename(path)));
+    this.logger.error(
+      `InfluxDB Service: InfluxDB rejected ${lines} spooled analytic event(s), moved ${basename(path)} to ${directory}`,
+      error,
+    );
+  }
+
+  /**
+   * Replays the spooled batches, oldest first. Batches rejected by InfluxDB are moved to the
+   * dead-letter sub-directory. Otherwise replay stops at the first batch that fails, the
+   * remaining ones are kept for the next attempt.
+   *
+   * @param write - Writes a batch of lines to InfluxDB, rejects if the write fails.
+   *
+   * @returns The number of replayed lines.
+   */
+  async replay(
+    write: (lines: string[], precision: WritePrecisionType) => Promise<void>,
+  ) {
+    if (this.replaying) {
+      return 0;
+    }
+
+    this.replaying = true;
+    return this.exclusive(() => this.replayFiles(write));
+  }
+
+  /**
+   * Replays the spooled batches, see `replay()`.
+   *
+   * @param write - Writes a batch of lines to InfluxDB, rejects if the write fails.
+   *
+   * @returns The number of replayed lines.
+   */
+  private async replayFiles(
+    write: (lines: string[], precision: WritePrecisionType) => Promise<void>,
+  ) {
+    let count = 0;
+    try {
+      for (const file of await this.list()) {
+        const lines = (await readFile(file.path, 'utf8'))
+          .split('\n')
+          .filter((line) => !!line);
+        try {
+          // Batches spooled before precisions were recorded are in nanoseconds
+          const [, precision = 'ns'] =
+            file.path.match(SPOOL_FILE_PRECISION) || [];
+          await write(lines, precision as WritePrecisionType);
+        } catch (err) {
+          if (isRejected(err)) {
+            await this.moveToDeadLetter(file.path, lines.length, err);
+            continue;
+          }
+          this.logger.debug(
+            'InfluxDB Service: InfluxDB still unreachable, replay postponed',
+            err,
+          );
+          break;
+        }
+        await unlink(file.path);
+        count += lines.length;
+      }
+    } catch (err) {
+      this.logger.error('InfluxDB Service: Unable to replay the spool', err);
+    } finally {
+      this.replaying = false;
+    }
+
+    if (count > 0) {
+      this.logger.log(
+        `InfluxDB Service: Replayed ${count} spooled analytic event(s)`,
+      );
+    }
+    return count;
+  }
+
+  /**
+   * Removes the spooled lines matching a predicate, e.g. the lines of an erased subscriber,
+   * including the ones of the dead-letter batches.
+   *
+   * @param match - Returns true for the lines to remove.
+   *
+   * @returns The number of removed lines.
+   */
+  removeLines(match: (line: string) => boolean) {
+    return this.exclusive(async () => {
+      const files = [
+        ...(await this.list()),
+        ...(await this.list(
+          join(this.options.directory, DEAD_LETTER_DIRECTORY),
+        )),
+      ];
+      let count = 0;
+      for (const { path } of files) {
+        const lines = (await readFile(path, 'utf8'))
+          .split('\n')
+          .filter((line) => !!line);
+        const kept = lines.filter((line) => !match(line));
+        if (kept.length === lines.length) {
+          continue;
+        }
+        if (kept.length) {
+          await writeFile(path, kept.join('\n'));
+        } else {
+          await unlink(path);
+        }
+        count += lines.length - kept.length;
+      }
+      return count;
+    });
+  }
+
+  /**
+   * Runs a task once the previous replay or erasure is done.
+   *
+   * @param task - The task reading or rewriting the spool files.
+   *
+   * @returns A promise resolved with the result of the task.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.running.then(task);
+    this.running = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Periodically replays the spool.
+   *
+   * @param write - Writes a batch of lines to InfluxDB, rejects if the write fails.
+   * @param interval - Delay between two replays in milliseconds.
+   */
+  startReplay(
+    write: (lines: string[], precision: WritePrecisionType) => Promise<void>,
+    interval: number,
+  ) {
+    this.stopReplay();
+    this.replayTimer = setInterval(() => this.replay(write), interval);
+    this.replayTimer.unref();
+  }
+
+  /**
+   * Stops the periodic replay.
+   */
+  stopReplay() {
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  /**
+   * Lists the spooled batches, oldest first.
+   *
+   * @param directory - The directory holding the batches, defaults to the spool directory.
+   *
+   * @returns The spool files sorted by creation order.
+   */
+  private async list(directory = this.options.directory): Promise<SpoolFile[]> {
+    let names: string[];
+    try {
+      names = await readdir(directory);
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    return Promise.all(
+      names
+        .filter((name) => name.endsWith(SPOOL_FILE_EXTENSION))
+        .sort()
+        .map(async (name) => {
+          const path = join(directory, name);
+          const { size, mtime } = await stat(path);
+          return { path, size, mtime };
+        }),
+    );
+  }
+
+  /**
+   * Removes the batches that exceed the max age, then the oldest ones until
+   * the spool fits in the max size.
+   */
+  private async prune() {
+    const files = await this.list();
+    const expiresAt = Date.now() - this.options.maxAge;
+    let totalSize = files.reduce((acc, { size }) => acc + size, 0);
+    const dropped: string[] = [];
+
+    for (const file of files) {
+      if (
+        file.mtime.getTime() >= expiresAt &&
+        totalSize <= this.options.maxSize
+      ) {
+        break;
+      }
+      await unlink(file.path);
+      totalSize -= file.size;
+      dropped.push(file.path);
+    }
+
+    if (dropped.length) {
+      this.logger.warn(
+        `InfluxDB Service: Spool limits reached, dropped ${dropped.length} batch(es)`,
+        dropped,
+      );
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { isAuthorized, Metric, Telemetry } from './telemetry';
+
+describe('Telemetry', () => {
+  let telemetry: Telemetry;
+
+  beforeEach(() => {
+    telemetry = new Telemetry(jest.fn());
+  });
+
+  it('should format counters and gauges in the Prometheus text format', () => {
+    telemetry.increment(Metric.points, { measurement: 'Block' });
+    telemetry.increment(Metric.points, { measurement: 'Block' }, 2);
+    telemetry.set(Metric.queueDepth, {}, 5);
+
+    expect(telemetry.toPrometheus()).toBe(
+      [
+        '# HELP influxdb_helper_points_total Points queued for writing, by measurement',
+        '# TYPE influxdb_helper_points_total counter',
+        'influxdb_helper_points_total{measurement="Block"} 3',
+        '# HELP influxdb_helper_queue_depth Points queued but not written yet',
+        '# TYPE influxdb_helper_queue_depth gauge',
+        'influxdb_helper_queue_depth 5',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should escape the label values', () => {
+    telemetry.increment(Metric.points, { measurement: 'a "quoted"\\name\n' });
+    expect(telemetry.toPrometheus()).toContain(
+      'influxdb_helper_points_total{measurement="a \\"quoted\\"\\\\name\\n"} 1',
+    );
+  });
+
+  it('should cumulate the histogram buckets', () => {
+    telemetry.observe(Metric.writeDuration, { sink: 'influxdb' }, 0.003);
+    telemetry.observe(Metric.writeDuration, { sink: 'influxdb' }, 0.2);
+    telemetry.observe(Metric.writeDuration, { sink: 'influxdb' }, 30);
+
+    const lines = telemetry.toPrometheus().split('\n');
+    const metric = 'influxdb_helper_write_duration_seconds';
+    expect(lines).toContain(`${metric}_bucket{sink="influxdb",le="0.005"} 1`);
+    expect(lines).toContain(`${metric}_bucket{sink="influxdb",le="0.25"} 2`);
+    expect(lines).toContain(`${metric}_bucket{sink="influxdb",le="10"} 2`);
+    expect(lines).toContain(`${metric}_bucket{sink="influxdb",le="+Inf"} 3`);
+    expect(lines).toContain(`${metric}_sum{sink="influxdb"} 30.203`);
+    expect(lines).toContain(`${metric}_count{sink="influxdb"} 3`);
+  });
+});
+
+describe('isAuthorized', () => {
+  it('should only accept the configured bearer token', () => {
+    expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+    expect(isAuthorized('Bearer other', 'secret')).toBe(false);
+    expect(isAuthorized('secret', 'secret')).toBe(false);
+    expect(isAuthorized(undefined, 'secret')).toBe(false);
+  });
+
+  it('should refuse every request as long as no token is set', () => {
+    expect(isAuthorized('Bearer ', '')).toBe(false);
+  });
+});
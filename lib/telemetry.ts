@@ -0,0 +1,387 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  CommunicationObserver,
+  HttpError,
+  Point,
+  RequestTimedOutError,
+  ResponseStartedFn,
+  SendOptions,
+  Transport,
+} from '@influxdata/influxdb-client';
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Measurement of the points reporting the helper's own metrics
+export const TELEMETRY_MEASUREMENT = 'influxdb_helper_internal';
+
+export enum Metric {
+  points = 'influxdb_helper_points_total',
+  pointsDropped = 'influxdb_helper_points_dropped_total',
+  linesWritten = 'influxdb_helper_lines_written_total',
+  linesSpooled = 'influxdb_helper_lines_spooled_total',
+  writeErrors = 'influxdb_helper_write_errors_total',
+  writeDuration = 'influxdb_helper_write_duration_seconds',
+  queueDepth = 'influxdb_helper_queue_depth',
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+const METRICS: Record<Metric, { type: MetricType; help: string }> = {
+  [Metric.points]: {
+    type: 'counter',
+    help: 'Points queued for writing, by measurement',
+  },
+  [Metric.pointsDropped]: {
+    type: 'counter',
+    help: 'Points not written, by reason (sampled, rejected, undelivered, error)',
+  },
+  [Metric.linesWritten]: {
+    type: 'counter',
+    help: 'Lines successfully written, by sink',
+  },
+  [Metric.linesSpooled]: {
+    type: 'counter',
+    help: 'Lines spooled on disk after exhausting the write retries',
+  },
+  [Metric.writeErrors]: {
+    type: 'counter',
+    help: 'Failed write requests, by sink and error type',
+  },
+  [Metric.writeDuration]: {
+    type: 'histogram',
+    help: 'Duration of the write requests to InfluxDB, in seconds',
+  },
+  [Metric.queueDepth]: {
+    type: 'gauge',
+    help: 'Points queued but not written yet',
+  },
+};
+
+// Upper bounds of the histogram buckets (in seconds)
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export type TelemetryLabels = { [label: string]: string };
+
+type Series = {
+  metric: Metric;
+  labels: TelemetryLabels;
+  // Counter or gauge value, number of observations of a histogram
+  value: number;
+  // Sum of the observations of a histogram
+  sum: number;
+  // Observations per histogram bucket
+  buckets: number[];
+};
+
+/**
+ * Classifies a write error, e.g. to count the errors by type.
+ *
+ * @param error - The write error.
+ *
+ * @returns The HTTP status code, the system error code (e.g. ECONNREFUSED), `timeout` or the error name.
+ */
+export const getErrorType = (error: any): string => {
+  if (error instanceof HttpError) {
+    return String(error.statusCode);
+  } else if (error instanceof RequestTimedOutError) {
+    return 'timeout';
+  }
+  return error?.code || error?.name || 'unknown';
+};
+
+/**
+ * Checks the bearer token of a request to the metrics endpoint, in constant time.
+ *
+ * @param authorization - The `Authorization` header of the request.
+ * @param token - The expected token, the endpoint is closed if empty.
+ *
+ * @returns True if the request carries the expected token.
+ */
+export const isAuthorized = (
+  authorization: string | undefined,
+  token: string,
+) => {
+  if (!token || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+  // Hashed so that both buffers have the same length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(
+    digest(authorization.slice('Bearer '.length)),
+    digest(token),
+  );
+};
+
+/**
+ * Escapes a Prometheus label value.
+ *
+ * @param value - The label value.
+ *
+ * @returns The escaped label value.
+ */
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Formats Prometheus labels.
+ *
+ * @param labels - The labels.
+ *
+ * @returns The labels between curly braces, or an empty string if there is none.
+ */
+const formatLabels = (labels: TelemetryLabels) => {
+  const entries = Object.entries(labels);
+  return entries.length
+    ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`
+    : '';
+};
+
+/**
+ * Keeps the metrics of the helper itself (points written, dropped, write errors and latency,
+ * queue depth) so that a stalled analytics pipeline can be noticed and alerted on.
+ * Metrics are exposed in the Prometheus text format, and reported periodically as points.
+ */
+export class Telemetry {
+  // Series by metric name and labels
+  private readonly series = new Map<string, Series>();
+
+  private reportTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly onReport: () => void) {}
+
+  /**
+   * Returns the series of a metric, creating it on first use.
+   *
+   * @param metric - The metric.
+   * @param labels - The labels of the series.
+   *
+   * @returns The series.
+   */
+  private getSeries(metric: Metric, labels: TelemetryLabels) {
+    const key = `${metric}${JSON.stringify(labels)}`;
+    if (!this.series.has(key)) {
+      this.series.set(key, {
+        metric,
+        labels,
+        value: 0,
+        sum: 0,
+        buckets: DURATION_BUCKETS.map(() => 0),
+      });
+    }
+    return this.series.get(key);
+  }
+
+  /**
+   * Increments a counter.
+   *
+   * @param metric - The counter.
+   * @param labels - The labels of the series.
+   * @param value - The increment.
+   */
+  increment(metric: Metric, labels: TelemetryLabels = {}, value = 1) {
+    this.getSeries(metric, labels).value += value;
+  }
+
+  /**
+   * Sets the value of a gauge.
+   *
+   * @param metric - The gauge.
+   * @param labels - The labels of the series.
+   * @param value - The value.
+   */
+  set(metric: Metric, labels: TelemetryLabels, value: number) {
+    this.getSeries(metric, labels).value = value;
+  }
+
+  /**
+   * Records an observation in a histogram.
+   *
+   * @param metric - The histogram.
+   * @param labels - The labels of the series.
+   * @param value - The observed value.
+   */
+  observe(metric: Metric, labels: TelemetryLabels, value: number) {
+    const series = this.getSeries(metric, labels);
+    series.value++;
+    series.sum += value;
+    const index = DURATION_BUCKETS.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      series.buckets[index]++;
+    }
+  }
+
+  /**
+   * Formats the metrics in the Prometheus text exposition format.
+   *
+   * @returns The metrics, as served to Prometheus.
+   */
+  toPrometheus() {
+    const series = [...this.series.values()];
+    return (Object.keys(METRICS) as Metric[])
+      .filter((metric) => series.some((s) => s.metric === metric))
+      .map((metric) => {
+        const { type, help } = METRICS[metric];
+        const lines = [`# HELP ${metric} ${help}`, `# TYPE ${metric} ${type}`];
+        series
+          .filter((s) => s.metric === metric)
+          .forEach(({ labels, value, sum, buckets }) => {
+            if (type !== 'histogram') {
+              lines.push(`${metric}${formatLabels(labels)} ${value}`);
+              return;
+            }
+            let cumulated = 0;
+            DURATION_BUCKETS.forEach((bound, index) => {
+              cumulated += buckets[index];
+              lines.push(
+                `${metric}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulated}`,
+              );
+            });
+            lines.push(
+              `${metric}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value}`,
+              `${metric}_sum${formatLabels(labels)} ${sum}`,
+              `${metric}_count${formatLabels(labels)} ${value}`,
+            );
+          });
+        return lines.join('\n');
+      })
+      .join('\n')
+      .concat('\n');
+  }
+
+  /**
+   * Builds a point per series, tagged with the metric name and the series labels.
+   * Counters and gauges have a `value` field, histograms `count` and `sum` fields.
+   *
+   * @param timestamp - The date of the report.
+   *
+   * @returns The points of the report.
+   */
+  toPoints(timestamp: Date) {
+    return [...this.series.values()].map(({ metric, labels, value, sum }) => {
+      const point = new Point(TELEMETRY_MEASUREMENT)
+        .timestamp(timestamp)
+        .tag('metric', metric);
+      Object.entries(labels).forEach(([key, label]) => point.tag(key, label));
+      return METRICS[metric].type === 'histogram'
+        ? point.intField('count', value).floatField('sum', sum)
+        : point.floatField('value', value);
+    });
+  }
+
+  /**
+   * Starts reporting the metrics periodically.
+   *
+   * @param interval - The delay between two reports (in ms), 0 to disable the reports.
+   */
+  start(interval: number) {
+    this.stop();
+    if (interval > 0) {
+      this.reportTimer = setInterval(() => this.onReport(), interval);
+      this.reportTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the periodic reports.
+   */
+  stop() {
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+  }
+}
+
+/**
+ * Wraps the HTTP transport of an InfluxDB client to time the write requests (v2 `/api/v2/write`
+ * and v1 `/write` endpoints) and report their outcome. Other requests go through untouched.
+ */
+export class TimedTransport implements Transport {
+  constructor(
+    private readonly transport: Transport,
+    private readonly onWrite: (duration: number, error?: Error) => void,
+  ) {}
+
+  get chunkCombiner() {
+    return this.transport.chunkCombiner;
+  }
+
+  /**
+   * Checks whether a request writes points.
+   *
+   * @param path - The request path.
+   *
+   * @returns True if the request targets a write endpoint.
+   */
+  private isWrite(path: string) {
+    return path.startsWith('/api/v2/write') || path.startsWith('/write');
+  }
+
+  send(
+    path: string,
+    requestBody: string,
+    options: SendOptions,
+    callbacks?: Partial<CommunicationObserver<Uint8Array>>,
+  ) {
+    if (!this.isWrite(path)) {
+      return this.transport.send(path, requestBody, options, callbacks);
+    }
+
+    const startedAt = Date.now();
+    const observer = callbacks || {};
+    this.transport.send(path, requestBody, options, {
+      ...observer,
+      error: (error) => {
+        this.onWrite(Date.now() - startedAt, error);
+        observer.error?.(error);
+      },
+      complete: () => {
+        this.onWrite(Date.now() - startedAt);
+        observer.complete?.();
+      },
+    });
+  }
+
+  async request(
+    path: string,
+    requestBody: any,
+    options: SendOptions,
+    responseStarted?: ResponseStartedFn,
+  ) {
+    if (!this.isWrite(path)) {
+      return this.transport.request(
+        path,
+        requestBody,
+        options,
+        responseStarted,
+      );
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await this.transport.request(
+        path,
+        requestBody,
+        options,
+        responseStarted,
+      );
+      this.onWrite(Date.now() - startedAt);
+      return response;
+    } catch (err) {
+      this.onWrite(Date.now() - startedAt, err);
+      throw err;
+    }
+  }
+
+  iterate(path: string, requestBody: any, options: SendOptions) {
+    return this.transport.iterate(path, requestBody, options);
+  }
+}
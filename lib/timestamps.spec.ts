@@ -0,0 +1,66 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { isCoarsePrecision, TimestampSequencer } from './timestamps';
+
+describe('TimestampSequencer', () => {
+  const date = new Date('2024-06-01T10:00:00.123Z');
+  let sequencer: TimestampSequencer;
+
+  beforeEach(() => {
+    sequencer = new TimestampSequencer();
+  });
+
+  it('should keep distinct timestamps for events within the same millisecond', () => {
+    const timestamps = Array.from({ length: 100 }, () =>
+      sequencer.next(date, 'ns'),
+    );
+    expect(new Set(timestamps).size).toBe(100);
+    timestamps.forEach((timestamp) => {
+      expect(BigInt(timestamp) / 1_000_000n).toBe(BigInt(date.getTime()));
+    });
+  });
+
+  it('should keep distinct microsecond timestamps within the same millisecond', () => {
+    const timestamps = Array.from({ length: 10 }, () =>
+      sequencer.next(date, 'us'),
+    );
+    expect(timestamps[0]).toBe('1717236000123000');
+    expect(timestamps[9]).toBe('1717236000123009');
+  });
+
+  it('should not offset events of different milliseconds', () => {
+    expect(sequencer.next(date, 'ns')).toBe('1717236000123000000');
+    expect(sequencer.next(new Date(date.getTime() + 1), 'ns')).toBe(
+      '1717236000124000000',
+    );
+  });
+
+  it('should give the same timestamp to an event written again', () => {
+    const timestamp = sequencer.next(date, 'ns', 'message-1');
+    expect(new TimestampSequencer().next(date, 'ns', 'message-1')).toBe(
+      timestamp,
+    );
+    expect(sequencer.next(date, 'ns', 'message-2')).not.toBe(timestamp);
+  });
+
+  it('should truncate the timestamps to coarse precisions', () => {
+    expect(sequencer.next(date, 'ms')).toBe('1717236000123');
+    expect(sequencer.next(date, 'ms')).toBe('1717236000123');
+    expect(sequencer.next(date, 's')).toBe('1717236000');
+  });
+});
+
+describe('isCoarsePrecision', () => {
+  it('should only flag the precisions that cannot keep events apart', () => {
+    expect(isCoarsePrecision('s')).toBe(true);
+    expect(isCoarsePrecision('ms')).toBe(true);
+    expect(isCoarsePrecision('us')).toBe(false);
+    expect(isCoarsePrecision('ns')).toBe(false);
+  });
+});
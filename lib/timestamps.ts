@@ -0,0 +1,89 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { WritePrecisionType } from '@influxdata/influxdb-client';
+import { createHash } from 'crypto';
+
+// Number of distinct timestamps within a millisecond, per precision
+const STEPS: Record<WritePrecisionType, number> = {
+  s: 1,
+  ms: 1,
+  us: 1_000,
+  ns: 1_000_000,
+};
+
+// Number of milliseconds whose used offsets are remembered
+const MAX_TRACKED_MILLISECONDS = 10_000;
+
+/**
+ * Checks whether a precision is too coarse for the points of a series to get distinct timestamps.
+ *
+ * @param precision - The write precision.
+ *
+ * @returns True if events of the same series within the same millisecond (or second) collide.
+ */
+export const isCoarsePrecision = (precision: WritePrecisionType) =>
+  STEPS[precision] === 1;
+
+/**
+ * Builds the timestamps of the points, keeping them distinct within a millisecond. InfluxDB
+ * identifies a point by its series and timestamp, so two events of the same series stamped
+ * with the same date would overwrite each other. Dates only have a millisecond resolution,
+ * a sub-millisecond offset is therefore added: a sequence for live events, or an offset
+ * derived from the event id so that writing the same event again (e.g. a backfill re-run)
+ * overwrites the same point.
+ */
+export class TimestampSequencer {
+  // Next offset by millisecond, oldest millisecond first
+  private readonly sequences = new Map<number, number>();
+
+  /**
+   * Picks the sub-millisecond offset of a point.
+   *
+   * @param time - The date of the event, in milliseconds.
+   * @param steps - The number of distinct timestamps within a millisecond.
+   * @param id - The event id, if any.
+   *
+   * @returns The offset, lower than the number of steps.
+   */
+  private getOffset(time: number, steps: number, id?: string) {
+    if (id) {
+      return createHash('sha1').update(id).digest().readUInt32BE(0) % steps;
+    }
+
+    const offset = this.sequences.get(time) || 0;
+    this.sequences.delete(time);
+    this.sequences.set(time, offset + 1);
+    if (this.sequences.size > MAX_TRACKED_MILLISECONDS) {
+      this.sequences.delete(this.sequences.keys().next().value);
+    }
+    return offset % steps;
+  }
+
+  /**
+   * Builds the timestamp of a point.
+   *
+   * @param date - The date of the event.
+   * @param precision - The write precision.
+   * @param id - The event id, to get the same timestamp when the event is written again.
+   *
+   * @returns The timestamp, in the given precision.
+   */
+  next(date: Date, precision: WritePrecisionType, id?: string) {
+    const time = date.getTime();
+    const steps = STEPS[precision];
+    if (precision === 's') {
+      return String(Math.floor(time / 1000));
+    } else if (steps === 1) {
+      return String(time);
+    }
+    return String(
+      BigInt(time) * BigInt(steps) + BigInt(this.getOffset(time, steps, id)),
+    );
+  }
+}
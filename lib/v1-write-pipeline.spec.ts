@@ -0,0 +1,83 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { InfluxDB } from '@influxdata/influxdb-client';
+
+import { createLoggerMock } from './test/mocks';
+import { V1WritePipeline, V1WritePipelineOptions } from './v1-write-pipeline';
+
+describe('V1WritePipeline', () => {
+  let request: jest.Mock;
+
+  const createPipeline = (options: Partial<V1WritePipelineOptions> = {}) =>
+    new V1WritePipeline(
+      { transport: { request } } as unknown as InfluxDB,
+      {
+        database: 'analytics',
+        username: 'hexabot',
+        password: 'secret',
+        batchSize: 100,
+        flushInterval: 0,
+        maxRetries: 0,
+        retryJitter: 0,
+        precision: 'ms',
+        ...options,
+      },
+      createLoggerMock(),
+    );
+
+  beforeEach(() => {
+    request = jest.fn().mockResolvedValue({
+      results: [
+        {
+          series: [
+            { columns: ['name', 'duration'], values: [['autogen', '0s']] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should list the retention policies of the database with the credentials', async () => {
+    await createPipeline({ retentionPolicy: 'autogen' }).checkAccess();
+
+    expect(request).toHaveBeenCalledWith(
+      `/query?${new URLSearchParams({ q: 'SHOW RETENTION POLICIES ON "analytics"' })}`,
+      null,
+      {
+        method: 'GET',
+        headers: {
+          authorization: `Basic ${Buffer.from('hexabot:secret').toString('base64')}`,
+        },
+      },
+    );
+  });
+
+  it('should be not found when the retention policy does not exist', async () => {
+    await expect(
+      createPipeline({ retentionPolicy: 'weekly' }).checkAccess(),
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should tell a missing database from a refused user', async () => {
+    request.mockResolvedValueOnce({
+      results: [{ error: 'database not found: analytics' }],
+    });
+    request.mockResolvedValueOnce({
+      results: [{ error: 'error authorizing query: hexabot not authorized' }],
+    });
+
+    await expect(createPipeline().checkAccess()).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Database "analytics" not found',
+    });
+    await expect(createPipeline().checkAccess()).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+});
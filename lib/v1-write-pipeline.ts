@@ -0,0 +1,123 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import {
+  HttpError,
+  InfluxDB,
+  WritePrecisionType,
+} from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { BatchPipeline } from './batch-pipeline';
+import { BatchOptions, createNotFoundError } from './sink';
+
+// Precisions as named by the `/write` endpoint
+const V1_PRECISIONS: Record<WritePrecisionType, string> = {
+  s: 's',
+  ms: 'ms',
+  us: 'u',
+  ns: 'ns',
+};
+
+export type V1WritePipelineOptions = BatchOptions & {
+  database: string;
+  retentionPolicy?: string;
+  username?: string;
+  password?: string;
+};
+
+/**
+ * A long-lived, batched write pipeline towards an InfluxDB 1.x database, through the
+ * legacy `/write` HTTP endpoint. Points are buffered and sent whenever the batch is full
+ * or the flush interval elapses, failed batches are retried (with jitter) and handed over
+ * to the `onFailed` callback when they cannot be delivered.
+ */
+export class V1WritePipeline extends BatchPipeline<V1WritePipelineOptions> {
+  constructor(
+    // Only used for its HTTP transport
+    private readonly client: InfluxDB,
+    options: V1WritePipelineOptions,
+    logger: LoggerService,
+  ) {
+    super(options, logger);
+  }
+
+  async ping() {
+    await this.client.transport.request('/ping', null, { method: 'GET' });
+  }
+
+  /**
+   * Builds the basic authorization header, when credentials are configured.
+   *
+   * @returns The authorization header, if any.
+   */
+  private getAuthorizationHeaders(): { authorization?: string } {
+    const { username, password } = this.options;
+    const credentials = Buffer.from(`${username}:${password}`).toString(
+      'base64',
+    );
+    return username ? { authorization: `Basic ${credentials}` } : {};
+  }
+
+  /**
+   * Checks that the credentials can access the database and that the retention policy, if any,
+   * exists, by listing the retention policies of the database.
+   *
+   * @returns A promise resolved once checked, rejected if the credentials are refused or the database or retention policy does not exist.
+   */
+  async checkAccess() {
+    const { database, retentionPolicy } = this.options;
+    const params = new URLSearchParams({
+      q: `SHOW RETENTION POLICIES ON "${database.replace(/"/g, '\\"')}"`,
+    });
+    const { results } = await this.client.transport.request(
+      `/query?${params}`,
+      null,
+      { method: 'GET', headers: this.getAuthorizationHeaders() },
+    );
+    const { error, series } = results?.[0] || {};
+    if (error) {
+      // e.g. "database not found: analytics" or "error authorizing query"
+      throw /not found/.test(error)
+        ? createNotFoundError(`Database "${database}" not found`)
+        : new HttpError(
+            403,
+            'Forbidden',
+            undefined,
+            undefined,
+            undefined,
+            error,
+          );
+    }
+    const policies: string[] = series?.[0]?.values?.map(([name]) => name) ?? [];
+    if (retentionPolicy && !policies.includes(retentionPolicy)) {
+      throw createNotFoundError(
+        `Retention policy "${retentionPolicy}" not found on database "${database}"`,
+      );
+    }
+  }
+
+  async writeLines(lines: string[], precision: WritePrecisionType = 'ns') {
+    const { database, retentionPolicy } = this.options;
+    const params = new URLSearchParams({
+      db: database,
+      precision: V1_PRECISIONS[precision],
+    });
+    if (retentionPolicy) {
+      params.set('rp', retentionPolicy);
+    }
+    await this.client.transport.request(`/write?${params}`, lines.join('\n'), {
+      method: 'POST',
+      headers: {
+        'content-type': 'text/plain; charset=utf-8',
+        ...this.getAuthorizationHeaders(),
+      },
+    });
+  }
+}
@@ -0,0 +1,80 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { HttpError, InfluxDB } from '@influxdata/influxdb-client';
+
+import { createLoggerMock } from './test/mocks';
+import { WritePipeline, WritePipelineOptions } from './write-pipeline';
+
+describe('WritePipeline', () => {
+  let request: jest.Mock;
+
+  const createPipeline = (options: Partial<WritePipelineOptions> = {}) =>
+    new WritePipeline(
+      { transport: { request } } as unknown as InfluxDB,
+      {
+        version: 'v2',
+        organization: 'hexastack',
+        bucket: 'hexabot',
+        batchSize: 100,
+        flushInterval: 0,
+        maxRetries: 0,
+        retryJitter: 0,
+        precision: 'ms',
+        ...options,
+      },
+      createLoggerMock(),
+    );
+
+  beforeEach(() => {
+    request = jest.fn();
+  });
+
+  it('should look the bucket up with the token', async () => {
+    request.mockResolvedValue({ buckets: [{ name: 'hexabot' }] });
+
+    await createPipeline().checkAccess();
+
+    expect(request).toHaveBeenCalledWith(
+      '/api/v2/buckets?org=hexastack&name=hexabot',
+      null,
+      { method: 'GET' },
+    );
+  });
+
+  it('should be not found when the bucket does not exist', async () => {
+    request.mockResolvedValue({ buckets: [] });
+
+    await expect(createPipeline().checkAccess()).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Bucket "hexabot" not found in organization "hexastack"',
+    });
+  });
+
+  it('should pass on the errors of the buckets API', async () => {
+    request.mockRejectedValue(new HttpError(401, 'Unauthorized'));
+
+    await expect(createPipeline().checkAccess()).rejects.toMatchObject({
+      statusCode: 401,
+    });
+  });
+
+  it('should look the database up with InfluxDB 3', async () => {
+    request.mockResolvedValue({
+      results: [{ series: [{ columns: ['name'], values: [['analytics']] }] }],
+    });
+
+    await createPipeline({
+      version: 'v3',
+      bucket: 'analytics',
+    }).checkAccess();
+    await expect(
+      createPipeline({ version: 'v3', bucket: 'other' }).checkAccess(),
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,102 @@
+/*
+ * Copyright © 2024 Hexastack. All rights reserved.
+ *
+ * Licensed under the GNU Affero General Public License v3.0 (AGPLv3) with the following additional terms:
+ * 1. The name "Hexabot" is a trademark of Hexastack. You may not use this name in derivative works without express written permission.
+ * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
+ */
+
+import { InfluxDB, WritePrecisionType } from '@influxdata/influxdb-client';
+
+import { LoggerService } from '@/logger/logger.service';
+
+import { BatchPipeline } from './batch-pipeline';
+import { BatchOptions, createNotFoundError, InfluxdbVersion } from './sink';
+
+export type WritePipelineOptions = BatchOptions & {
+  version: Exclude<InfluxdbVersion, 'v1'>;
+  organization: string;
+  bucket: string;
+};
+
+/**
+ * A long-lived, batched write pipeline towards a single InfluxDB organization/bucket, through
+ * the v2 write API (also exposed by InfluxDB 3, where the bucket is the database name).
+ * Points are buffered and sent whenever the batch is full or the flush interval elapses,
+ * failed batches are retried (with jitter) and handed over to the `onFailed` callback when
+ * they cannot be delivered, be it because the retries are exhausted or the pipeline is closed.
+ */
+export class WritePipeline extends BatchPipeline<WritePipelineOptions> {
+  constructor(
+    private readonly client: InfluxDB,
+    options: WritePipelineOptions,
+    logger: LoggerService,
+  ) {
+    super(options, logger);
+  }
+
+  /**
+   * Checks that the server is reachable.
+   *
+   * @returns A promise resolved once the server answered, rejected if it cannot be reached.
+   */
+  async ping() {
+    await this.client.transport.request('/ping', null, { method: 'GET' });
+  }
+
+  /**
+   * Checks that the token can access the bucket, looked up through the buckets API. InfluxDB 3
+   * has no buckets API, the database is looked up through the v1 compatible query API instead.
+   *
+   * @returns A promise resolved once checked, rejected if the token is refused or the bucket does not exist.
+   */
+  async checkAccess() {
+    const { version, organization, bucket } = this.options;
+    if (version === 'v3') {
+      const params = new URLSearchParams({ q: 'SHOW DATABASES' });
+      const { results } = await this.client.transport.request(
+        `/query?${params}`,
+        null,
+        { method: 'GET' },
+      );
+      const databases: string[] =
+        results?.[0]?.series?.[0]?.values?.map(([name]) => name) ?? [];
+      if (!databases.includes(bucket)) {
+        throw createNotFoundError(`Database "${bucket}" not found`);
+      }
+      return;
+    }
+
+    const params = new URLSearchParams({ org: organization, name: bucket });
+    const { buckets } = await this.client.transport.request(
+      `/api/v2/buckets?${params}`,
+      null,
+      { method: 'GET' },
+    );
+    if (!buckets?.length) {
+      throw createNotFoundError(
+        `Bucket "${bucket}" not found in organization "${organization}"`,
+      );
+    }
+  }
+
+  /**
+   * Writes line protocol lines right away, bypassing the batch buffer and the retries.
+   *
+   * @param lines - The line protocol lines to write.
+   * @param precision - The precision of the line timestamps, defaults to nanoseconds.
+   *
+   * @returns A promise resolved once the lines are written, rejected if the write fails.
+   */
+  async writeLines(lines: string[], precision: WritePrecisionType = 'ns') {
+    const { organization, bucket } = this.options;
+    const writeApi = this.client.getWriteApi(organization, bucket, precision, {
+      batchSize: lines.length + 1,
+      flushInterval: 0,
+      maxRetries: 0,
+      writeFailed: (error) => Promise.reject(error),
+    });
+    writeApi.writeRecords(lines);
+    await writeApi.close();
+  }
+}
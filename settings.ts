@@ -9,11 +9,23 @@
 import { HelperSetting } from '@/helper/types';
 import { SettingType } from '@/setting/schemas/types';
 
+import { ERASURE_MODES } from './lib/erasure';
+import { NAMING_STRATEGIES } from './lib/measurements';
+import { PRIVACY_MODES } from './lib/privacy';
+import { INFLUXDB_VERSIONS, SINK_MODES, WRITE_PRECISIONS } from './lib/sink';
+
 export const INFLUXDB_HELPER_NAME = 'influxdb-helper';
 
 export const INFLUXDB_HELPER_NAMESPACE = 'influxdb_helper';
 
 export default [
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'version',
+    value: 'v2',
+    type: SettingType.select,
+    options: INFLUXDB_VERSIONS,
+  },
   {
     group: INFLUXDB_HELPER_NAMESPACE,
     label: 'url',
@@ -41,6 +53,236 @@ export default [
     type: SettingType.text,
     translatable: false,
   },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'database',
+    value: 'hexabot',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'retention_policy',
+    value: '',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'username',
+    value: '',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'password',
+    value: '',
+    type: SettingType.secret,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'connection_status',
+    value: 'unknown',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'routing_rules',
+    value: '[]',
+    type: SettingType.textarea,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'batch_size',
+    value: 100,
+    type: SettingType.number,
+    config: {
+      min: 1,
+      max: 5000,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'flush_interval',
+    value: 5000,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 60000,
+      step: 100,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'max_retries',
+    value: 3,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 10,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'retry_jitter',
+    value: 200,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 10000,
+      step: 100,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'write_precision',
+    value: 'ns',
+    type: SettingType.select,
+    options: WRITE_PRECISIONS,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'sink_mode',
+    value: 'influxdb',
+    type: SettingType.select,
+    options: SINK_MODES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'sink_file',
+    value: './influxdb-points.lp',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'sink_file_max_size',
+    value: 10,
+    type: SettingType.number,
+    config: {
+      min: 1,
+      max: 10240,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'sink_file_max_files',
+    value: 5,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 100,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'naming_strategy',
+    value: 'legacy',
+    type: SettingType.select,
+    options: NAMING_STRATEGIES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'measurement_prefix',
+    value: 'hexabot_',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'rollups_enabled',
+    value: false,
+    type: SettingType.checkbox,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'rollup_hourly_retention',
+    value: 90,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 3650,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'rollup_daily_retention',
+    value: 0,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 3650,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'spool_enabled',
+    value: true,
+    type: SettingType.checkbox,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'spool_directory',
+    value: './influxdb-spool',
+    type: SettingType.text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'spool_max_size',
+    value: 100,
+    type: SettingType.number,
+    config: {
+      min: 1,
+      max: 10240,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'spool_max_age',
+    value: 72,
+    type: SettingType.number,
+    config: {
+      min: 1,
+      max: 8760,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'metrics_enabled',
+    value: false,
+    type: SettingType.checkbox,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'metrics_token',
+    value: '',
+    type: SettingType.secret,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'telemetry_interval',
+    value: 60,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 3600,
+      step: 10,
+    },
+  },
   {
     group: INFLUXDB_HELPER_NAMESPACE,
     label: 'subjects',
@@ -62,4 +304,137 @@ export default [
     type: SettingType.text,
     translatable: false,
   },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'subject_rules',
+    value: '[]',
+    type: SettingType.textarea,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'session_timeout',
+    value: 30,
+    type: SettingType.number,
+    config: {
+      min: 1,
+      max: 1440,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'funnels',
+    value: '[]',
+    type: SettingType.textarea,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'event_sampling',
+    value: '{}',
+    type: SettingType.textarea,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'sampling_per_subscriber',
+    value: true,
+    type: SettingType.checkbox,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'nlp_tag_allowlist',
+    value: [],
+    type: SettingType.multiple_text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'nlp_tag_denylist',
+    value: [],
+    type: SettingType.multiple_text,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'nlp_tag_max_values',
+    value: 100,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 10000,
+      step: 1,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'nlp_confidence_threshold',
+    value: 0.5,
+    type: SettingType.number,
+    config: {
+      min: 0,
+      max: 1,
+      step: 0.05,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'foreign_id_privacy',
+    value: 'keep',
+    type: SettingType.select,
+    options: PRIVACY_MODES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'first_name_privacy',
+    value: 'keep',
+    type: SettingType.select,
+    options: PRIVACY_MODES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'last_name_privacy',
+    value: 'keep',
+    type: SettingType.select,
+    options: PRIVACY_MODES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'privacy_salt',
+    value: '',
+    type: SettingType.secret,
+    translatable: false,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'erasure_mode',
+    value: 'delete',
+    type: SettingType.select,
+    options: ERASURE_MODES,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'backfill_enabled',
+    value: false,
+    type: SettingType.checkbox,
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'backfill_chunk_size',
+    value: 500,
+    type: SettingType.number,
+    config: {
+      min: 10,
+      max: 10000,
+      step: 10,
+    },
+  },
+  {
+    group: INFLUXDB_HELPER_NAMESPACE,
+    label: 'backfill_checkpoint',
+    value: './influxdb-backfill.json',
+    type: SettingType.text,
+    translatable: false,
+  },
 ] as const satisfies HelperSetting<typeof INFLUXDB_HELPER_NAME>[];
@@ -6,6 +6,10 @@
  * 2. All derivative works must include clear attribution to the original creator and software, Hexastack and Hexabot, in a prominent location (e.g., in the software's "About" section, documentation, and README file).
  */
 
+import { Subscriber } from '@/chat/schemas/subscriber.schema';
+
+import { ErasureMode } from './lib/erasure';
+
 export type InfluxFields = {
   [key: string]:
     | {
@@ -23,3 +27,180 @@ export type InfluxFields = {
 };
 
 export type InfluxTags = { [key: string]: string };
+
+export type QueryRange = {
+  start: Date;
+  // Defaults to now
+  stop?: Date;
+};
+
+export type MessageCounts = {
+  channel: string;
+  received: number;
+  sent: number;
+};
+
+export type FallbackRate = {
+  channel: string;
+  received: number;
+  local_fallbacks: number;
+  global_fallbacks: number;
+  // Ratio of fallbacks over received messages (0 to 1)
+  rate: number;
+};
+
+export type BlockHitsGroup = 'subject' | 'category';
+
+export type BlockHits = {
+  // Subject or category, depending on the requested grouping
+  key: string;
+  count: number;
+};
+
+export type InterventionDelay = {
+  channel: string;
+  interventions: number;
+  // Average delay between assignment and opening, in minutes
+  average_delay: number;
+};
+
+export type UserCounts = {
+  channel: string;
+  new_users: number;
+  returning_users: number;
+};
+
+export type ErasureReport = {
+  subscriber: string;
+  mode: ErasureMode;
+  // Total number of erased points
+  points: number;
+  // Number of erased points per measurement
+  measurements: { [measurement: string]: number };
+  // Number of erased lines that were spooled, waiting to be written
+  spooled?: number;
+};
+
+export type ClassificationRule = {
+  // Classification dimension, written as a tag (`subject` by default)
+  dimension?: string;
+  // Rules with a higher priority are evaluated first
+  priority?: number;
+  // All the given criteria must match
+  match: {
+    // Block category label or id
+    category?: string;
+    block_id?: string;
+    // Exact block name
+    name?: string;
+    // Regular expression tested against the block name (case insensitive)
+    regex?: string;
+    // Block option (dotted path), either truthy or equal to the given value
+    option?: { key: string; value?: any };
+  };
+  value: string;
+};
+
+export type FunnelStep = {
+  // Exact block name
+  name?: string;
+  // Block id
+  id?: string;
+  // Block subject, as classified by the helper
+  subject?: string;
+};
+
+export type FunnelDefinition = {
+  name: string;
+  // Ordered steps, the first one enters the funnel and the last one converts it
+  steps: FunnelStep[];
+  // Max delay (in minutes) between two steps before the funnel is abandoned
+  timeout?: number;
+};
+
+export type FunnelAbandonReason = 'timeout' | 'fallback' | 'handover';
+
+export type ConnectionState =
+  'ok' | 'degraded' | 'down' | 'unauthorized' | 'not_found';
+
+export type ConnectionStatus = {
+  // ok: writes succeed, degraded: the server is reachable but rejects the writes, down: the server is unreachable,
+  // unauthorized: the credentials are refused, not_found: the organization, bucket, database or retention policy does not exist
+  status: ConnectionState;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+  updatedAt: Date;
+};
+
+export type LogEventOptions = {
+  // Sampling rate the event was kept with, written as the `sample_rate` field
+  sampleRate?: number;
+  // Subscriber the event relates to, used to route the point by subscriber label
+  subscriber?: Subscriber;
+  // Date of the event, defaults to now
+  timestamp?: Date;
+  // Id of the event, so that writing it again (e.g. backfill) overwrites the same point
+  id?: string;
+};
+
+export type RoutingDestination = {
+  // Defaults to the configured organization
+  organization?: string;
+  // Defaults to the configured bucket (database with InfluxDB 1.x and 3.x)
+  bucket?: string;
+};
+
+export type RoutingRule = RoutingDestination & {
+  // All the given criteria must match
+  match: {
+    channel?: string;
+    // Measurement name, as written with the legacy naming strategy
+    measurement?: string;
+    subject?: string;
+    // Block category label
+    category?: string;
+    // Subscriber label name or id
+    label?: string;
+  };
+};
+
+export type NlpFallback = 'none' | 'global' | 'local';
+
+export type MigrationReport = {
+  from: string;
+  to: string;
+  // Number of points copied
+  points: number;
+};
+
+export type DashboardFormat = 'influxdb' | 'grafana';
+
+export type TrackFieldType = 'string' | 'float' | 'int' | 'boolean';
+
+export type TrackSchema = {
+  // Measurement name, as written with the legacy naming strategy
+  measurement: string;
+  // Allowed tags, optional unless stated otherwise
+  tags?: { [key: string]: { required?: boolean } };
+  // Allowed fields, optional unless stated otherwise
+  fields: { [key: string]: { type: TrackFieldType; required?: boolean } };
+};
+
+export type TrackEvent = {
+  measurement: string;
+  // Value of the point, defaults to 1 (count value)
+  value?: number;
+  tags?: InfluxTags;
+  // Null and undefined values are treated as missing
+  fields?: { [key: string]: string | number | boolean | null | undefined };
+  // Date of the event, defaults to now
+  timestamp?: Date;
+};
+
+export type BackfillProgress = {
+  // Collection being backfilled, null once the backfill is complete
+  collection: string | null;
+  processed: number;
+  total: number;
+  done: boolean;
+};